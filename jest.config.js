@@ -0,0 +1,13 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  // Services import the Apps Script typings for their side effect; in tests that import
+  // installs stand-ins for the Apps Script globals they use
+  moduleNameMapper: {
+    '^google-apps-script$': '<rootDir>/tests/apps-script.mock.ts'
+  }
+};
@@ -1,23 +1,23 @@
-// Get API key from script properties
-const API_KEY = PropertiesService.getScriptProperties().getProperty("API_KEY");
-const SEARCH_ENGINE_ID = "f791de3ddf13c4413";
-
 /**
- * Gets search suggestions from Google Custom Search API
+ * Gets search suggestions from Google Custom Search API.
+ * Needs a GOOGLE_CSE_API_KEY (personal or organization) and the GOOGLE_CSE_ID script property;
+ * the old API_KEY property still works, with the search engine it used to come with.
  * @param {string} query - The search query
  * @return {Array} Array of suggestion strings
  */
 function getSearchSuggestions(query) {
   if (!query || query.length < 2) return [];
-  if (!API_KEY) {
-    console.error("API_KEY not found in script properties");
+  const apiKey = SettingsService.getKey("GOOGLE_CSE_API_KEY");
+  const searchEngineId = SettingsService.getSearchEngineId();
+  if (!apiKey || !searchEngineId) {
+    console.log("Search suggestions are off: GOOGLE_CSE_API_KEY or GOOGLE_CSE_ID is not set");
     return [];
   }
 
   try {
-    const url = `https://www.googleapis.com/customsearch/v1?key=${API_KEY}&cx=${SEARCH_ENGINE_ID}&q=${encodeURIComponent(
-      query
-    )}`;
+    const url = `https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=${encodeURIComponent(
+      searchEngineId
+    )}&q=${encodeURIComponent(query)}`;
 
     const response = UrlFetchApp.fetch(url);
     const data = JSON.parse(response.getContentText());
@@ -90,7 +90,7 @@ function getSearchSuggestions(query) {
       .map((s) => s.replace(/\s+/g, " ").trim()) // Clean up whitespace
       .slice(0, 5); // Limit to top 5
   } catch (error) {
-    console.error("Error fetching Google suggestions:", error);
+    console.error("Error fetching Google suggestions:", SettingsService.redact(error));
     return [];
   }
 }
@@ -126,12 +126,485 @@ function getColumnHeaders(sheetName, headerRow) {
 }
 
 /**
- * Processes a custom prompt for a range of spreadsheet cells
+ * Checks that every {{variable}} in a prompt matches a column header or letter
+ * @param {string} sheetName - Name of the input sheet
+ * @param {string} prompt - Prompt template
+ * @param {number} headerRow - Optional row number containing headers; defaults to the sheet's header row
+ * @return {Object} Object containing validity, unknown variables and the column mapping
+ */
+function validatePromptTemplate(sheetName, prompt, headerRow) {
+  const headers = SpreadsheetService.getColumnHeaders(sheetName, headerRow || SpreadsheetService.getHeaderRow(sheetName));
+  const variables = TemplateService.extractVariables(prompt);
+  const mapping = TemplateService.mapVariablesToColumns(variables, headers);
+
+  return {
+    valid: mapping.unknown.length === 0,
+    unknown: mapping.unknown,
+    columns: mapping.columns,
+  };
+}
+
+/**
+ * Processes a custom prompt for a range of spreadsheet cells.
+ * With config.aggregate ({targetCell, output: 'cell' | 'table', mapPrompt}) the prompt is asked once
+ * about all rows and the answer is written to one cell, or a table starting at it.
  */
 function processCustomPrompt(config) {
   return PromptService.processCustomPrompt(config);
 }
 
+/**
+ * Gets the progress of the user's current or last column summary
+ * @return {Object|null} Stage, completed and total parts, and a message
+ */
+function getAggregateProgress() {
+  return AggregateService.getProgress();
+}
+
+/**
+ * Runs the prompt on a few sample rows and returns the resolved prompts and outputs
+ * without writing to the sheet
+ * @param {Object} config - Same config as processCustomPrompt
+ * @param {number} sampleSize - Number of rows to preview (default 3)
+ * @return {Object} Success, message and the previewed rows
+ */
+function previewPrompt(config, sampleSize) {
+  return PromptService.previewPrompt(config, sampleSize || 3);
+}
+
+/**
+ * Estimates a run's tokens and cost from the prompt lengths without calling the model.
+ * Prices come from a built-in table; set the MODEL_PRICES script property to a JSON object
+ * like {"my-model": {"input": 0.5, "output": 1.5}} (USD per million tokens) to add or override prices.
+ * @param {Object} config - Same config as processCustomPrompt
+ * @return {Object} Rows, requests, estimated token usage and cost, and any budget warning
+ */
+function estimateRun(config) {
+  return PromptService.estimateRun(config);
+}
+
+/**
+ * Gets the tokens and cost of the user's last run, or null before the first run
+ */
+function getLastRunUsage() {
+  return PromptService.getLastRunUsage();
+}
+
+/**
+ * Gets the budgets and how much has been spent against them
+ * @return {Object} Budgets (perRun, perUserDay, perSpreadsheet in USD), spentToday and spentInSpreadsheet
+ */
+function getBudgetStatus() {
+  return UsageService.getStatus();
+}
+
+/**
+ * Saves the budgets that are given. Zero means no limit; omitted budgets are left unchanged.
+ * The spreadsheet budget applies to everyone, so only the spreadsheet's owner can change it.
+ * @param {Object} budgets - perRun, perUserDay and perSpreadsheet in USD
+ * @return {Object} The saved budgets
+ */
+function saveBudgets(budgets) {
+  return UsageService.saveBudgets(budgets || {});
+}
+
+/**
+ * Re-runs only the rows that failed in the user's last run
+ */
+function retryFailedRows() {
+  return PromptService.retryFailedRows();
+}
+
+/**
+ * Lists the user's past runs, newest first
+ * @param {Object} filter - Optional query, model, sheet, status, since and limit
+ * @return {Array} Run summaries
+ */
+function listRuns(filter) {
+  return HistoryService.listRuns(filter || {});
+}
+
+/**
+ * Gets the full record of a past run, including its config and samples
+ */
+function getRun(runId) {
+  return HistoryService.getRun(runId);
+}
+
+/**
+ * Re-runs a past run with the same settings
+ */
+function rerun(runId) {
+  return PromptService.rerun(runId);
+}
+
+/**
+ * Restores the cells a run overwrote
+ * @param {string} runId - ID of the run to undo
+ * @param {boolean} force - Also overwrite cells that were edited after the run
+ * @return {Object} Success, message, restored cell count and any conflicting cells
+ */
+function undoRun(runId, force) {
+  return PromptService.undoRun(runId, !!force);
+}
+
+/**
+ * Deletes the user's run history
+ */
+function clearRunHistory() {
+  HistoryService.clearHistory();
+  return true;
+}
+
+/**
+ * Turns mirroring of runs to a hidden log sheet on or off for this spreadsheet
+ */
+function setRunLogSheetEnabled(enabled) {
+  HistoryService.setLogSheetEnabled(!!enabled);
+  return true;
+}
+
+/**
+ * Starts a background job for a large prompt run
+ * @param {Object} config - Same config as processCustomPrompt
+ * @param {number} chunkSize - Rows to process and write at a time
+ * @return {Object} Job summary for the sidebar to poll
+ */
+function startPromptJob(config, chunkSize) {
+  return JobService.startJob(config, chunkSize);
+}
+
+/**
+ * Gets a background job's progress
+ */
+function getJobStatus(jobId) {
+  return JobService.getJobStatus(jobId);
+}
+
+/**
+ * Lists the user's background jobs, newest first
+ */
+function listJobs() {
+  return JobService.listJobs();
+}
+
+/**
+ * Pauses a background job after its current chunk
+ */
+function pauseJob(jobId) {
+  return JobService.pauseJob(jobId);
+}
+
+/**
+ * Resumes a paused or failed background job
+ */
+function resumeJob(jobId) {
+  return JobService.resumeJob(jobId);
+}
+
+/**
+ * Cancels a background job
+ */
+function cancelJob(jobId) {
+  return JobService.cancelJob(jobId);
+}
+
+/**
+ * Continues background jobs for up to about 4.5 minutes, after queueing new rows for time watchers.
+ * Runs from an hourly trigger, and from the sidebar back to back while it's open, since add-on
+ * triggers can't run more often.
+ * @return {boolean} Whether any job is still waiting
+ */
+function runPendingJobs() {
+  return JobService.runPendingJobs();
+}
+
+/**
+ * Lists the models the sidebar offers, with their provider, context window, supported
+ * features and generation parameters, and price
+ */
+function getModelCatalog() {
+  return ModelCatalogService.getCatalog();
+}
+
+/**
+ * Shows which providers have a personal or organization API key, without the keys
+ */
+function getKeySettings() {
+  return SettingsService.getKeySettings();
+}
+
+/**
+ * Saves an API key for a provider
+ * @param {string} serviceId - Provider ID from getKeySettings, e.g. 'openai'
+ * @param {string} key - The API key
+ * @param {string} scope - 'personal' or 'organization' (key admins only)
+ * @return {Object} The updated key settings
+ */
+function saveApiKey(serviceId, key, scope) {
+  return SettingsService.saveKey(serviceId, key, scope || "personal");
+}
+
+/**
+ * Removes a personal or organization API key
+ */
+function deleteApiKey(serviceId, scope) {
+  return SettingsService.deleteKey(serviceId, scope || "personal");
+}
+
+/**
+ * Checks that the key runs would use for a provider works
+ * @return {Object} Success and a message
+ */
+function testApiKey(serviceId) {
+  return SettingsService.testConnection(serviceId);
+}
+
+/**
+ * Lists the watchers of this spreadsheet
+ */
+function listWatchers() {
+  return WatcherService.listWatchers();
+}
+
+/**
+ * Saves a run configuration as a watcher and switches it on. From then on, rows that are
+ * added or whose input is edited are processed in the background, following its overwrite policy.
+ * Time watchers check for new rows about once an hour, from the same trigger as background jobs.
+ * @param {Object} watcher - Name, mode ('edit' or 'time') and a config like processCustomPrompt's;
+ *   an id replaces an existing watcher
+ * @return {Object} The saved watcher
+ */
+function saveWatcher(watcher) {
+  return WatcherService.saveWatcher(watcher);
+}
+
+/**
+ * Switches a watcher on or off
+ */
+function setWatcherEnabled(watcherId, enabled) {
+  return WatcherService.setEnabled(watcherId, !!enabled);
+}
+
+/**
+ * Deletes a watcher
+ */
+function deleteWatcher(watcherId) {
+  return WatcherService.deleteWatcher(watcherId);
+}
+
+/**
+ * Installable edit trigger handler for watchers
+ */
+function onWatchedEdit(e) {
+  WatcherService.handleEdit(e);
+}
+
+/**
+ * Installable change trigger handler for watchers: picks up inserted rows
+ */
+function onWatchedChange(e) {
+  WatcherService.handleNewRows();
+}
+
+/**
+ * Installable form submit trigger handler for watchers: picks up form responses
+ */
+function onWatchedFormSubmit(e) {
+  WatcherService.handleNewRows();
+}
+
+/**
+ * Answers a question about a sheet or range, continuing the current conversation
+ * @param {string} question - e.g. "Which suppliers have missing prices?"
+ * @param {Object} options - sheet, optional range ("B1:F200", a named range or "selection"),
+ *   model and newConversation
+ * @return {Object} Success, the answer, the rows it cites and the conversation
+ */
+function askSheet(question, options) {
+  return SheetChatService.ask(question, options || {});
+}
+
+/**
+ * Gets the user's current conversation about this spreadsheet
+ */
+function getSheetConversation() {
+  return SheetChatService.getSession();
+}
+
+/**
+ * Starts over with an empty conversation
+ */
+function clearSheetConversation() {
+  SheetChatService.clearSession();
+}
+
+/**
+ * Writes an answer from the conversation to a new sheet
+ * @param {number} messageIndex - Position of the answer in the conversation's messages
+ * @return {Object} Success, a message and the new sheet's name
+ */
+function writeChatAnswerToSheet(messageIndex) {
+  return SheetChatService.writeAnswerToSheet(messageIndex);
+}
+
+/**
+ * Lists the user's saved pipelines
+ */
+function listPipelines() {
+  return PipelineService.listPipelines();
+}
+
+/**
+ * Saves a pipeline: a name, the first step's input column and an ordered list of steps.
+ * Each step has a name, model, prompt, output column and optionally the same mode settings
+ * as processCustomPrompt. Prompts can use {{Step name}} or {{step 1}} for earlier outputs.
+ * @param {Object} pipeline - The pipeline, with an id to replace an existing one
+ * @return {Object} The saved pipeline
+ */
+function savePipeline(pipeline) {
+  return PipelineService.savePipeline(pipeline);
+}
+
+/**
+ * Deletes a saved pipeline
+ */
+function deletePipeline(pipelineId) {
+  return PipelineService.deletePipeline(pipelineId);
+}
+
+/**
+ * Runs a saved pipeline on a sheet. Rows that fail a step skip the remaining steps.
+ * Long runs stop cleanly before the execution time limit and report the row to continue from.
+ * @param {string} pipelineId - ID of the pipeline
+ * @param {Object} options - sheet, startRow, headerRow, rowMode, rowCount and overwritePolicy
+ * @return {Object} Success, message, per-step results and the run ID for undo
+ */
+function runPipeline(pipelineId, options) {
+  return PipelineService.runPipeline(pipelineId, options);
+}
+
+/**
+ * Lists prompts from the library: the user's own and this spreadsheet's
+ * @param {Object} filter - Optional query, category, scope and sortBy
+ * @return {Array} Prompts, with their version history
+ */
+function listPrompts(filter) {
+  return PromptLibraryService.list(filter || {});
+}
+
+/**
+ * Gets a prompt from the library
+ * @param {string} promptId - ID of the prompt
+ * @param {string} scope - 'personal' or 'document'
+ */
+function getPrompt(promptId, scope) {
+  return PromptLibraryService.get(promptId, scope);
+}
+
+/**
+ * Saves a prompt to the library. With a promptId, saves a new version of that prompt.
+ * @param {Object} prompt - Name, category, content, systemInstructions, model and settings
+ * @param {string} scope - 'personal' or 'document'
+ * @param {string} promptId - Optional ID of the prompt to update
+ * @return {Object} The saved prompt
+ */
+function savePrompt(prompt, scope, promptId) {
+  return PromptLibraryService.save(prompt, scope || 'personal', promptId || undefined);
+}
+
+/**
+ * Restores an earlier version of a prompt
+ */
+function rollbackPrompt(promptId, scope, version) {
+  return PromptLibraryService.rollback(promptId, scope, version);
+}
+
+/**
+ * Deletes a prompt from the library
+ */
+function deletePrompt(promptId, scope) {
+  return PromptLibraryService.delete(promptId, scope);
+}
+
+/**
+ * Counts a use of a library prompt
+ */
+function updatePromptUsage(promptId, scope) {
+  PromptLibraryService.recordUsage(promptId, scope);
+  return true;
+}
+
+/**
+ * Exports library prompts as JSON
+ * @param {string} scope - Optional scope to export; all scopes by default
+ */
+function exportPrompts(scope) {
+  return PromptLibraryService.exportPrompts(scope || undefined);
+}
+
+/**
+ * Imports prompts from an exported JSON file into a scope
+ * @return {Object} Number of prompts imported and skipped
+ */
+function importPrompts(json, scope) {
+  return PromptLibraryService.importPrompts(json, scope || 'personal');
+}
+
+/**
+ * Gets the user's image generation settings
+ * @return {Object} Size, aspect ratio, output mode, Drive folder ID and whether images are shared by link
+ */
+function getImageSettings() {
+  return ImageService.getSettings();
+}
+
+/**
+ * Saves the user's image generation settings
+ * @param {Object} settings - Any of size, aspectRatio, outputMode ('formula' or 'link'), folderId and shareByLink
+ * @return {Object} The saved settings
+ */
+function saveImageSettings(settings) {
+  return ImageService.saveSettings(settings);
+}
+
+/**
+ * Runs a prompt on a cell or range. Use {{1}}, {{2}}, ... for the cells of each row.
+ * @param {string} prompt The prompt, e.g. "Summarize {{1}}"
+ * @param {A2:C10} input The cell or range to process, one result per row
+ * @param {string} model Optional model ID (defaults to gpt-4o-mini)
+ * @param {string} systemInstructions Optional system instructions
+ * @return The model's answer for each row
+ * @customfunction
+ */
+function SUNLOCKE(prompt, input, model, systemInstructions) {
+  return FormulaService.prompt(prompt, input, model || undefined, systemInstructions || undefined);
+}
+
+/**
+ * Classifies a cell or range into one of the given labels.
+ * @param {A2:A10} input The cell or range to classify, one label per row
+ * @param {string} labels Comma-separated labels, or a range of labels
+ * @param {string} model Optional model ID (defaults to gpt-4o-mini)
+ * @return The label for each row
+ * @customfunction
+ */
+function AI_CLASSIFY(input, labels, model) {
+  return FormulaService.classify(input, labels, model || undefined);
+}
+
+/**
+ * Extracts fields from a cell or range, one column per field.
+ * @param {A2:A10} input The cell or range to extract from, one result row per row
+ * @param {string} fields Field list, e.g. "email" or "brand, weight_kg:number"
+ * @param {string} model Optional model ID (defaults to gpt-4o-mini)
+ * @return The extracted values
+ * @customfunction
+ */
+function AI_EXTRACT(input, fields, model) {
+  return FormulaService.extract(input, fields, model || undefined);
+}
+
 /**
  * Needed to expose the function to the client-side code
  */
@@ -173,12 +646,23 @@ function setOpenAIKey() {
   // 6. Set "Value" as your OpenAI API key
   // 7. Click "Save"
 
+  // Other providers read their own properties in the same way:
+  //   PERPLEXITY_API_KEY, ANTHROPIC_API_KEY, DEEPSEEK_API_KEY, TOGETHER_API_KEY, BFL_API_KEY
+  // These are organization keys, shared by everyone using the add-on. Users can add a personal
+  // key for any provider in the sidebar settings; a personal key wins over the organization key.
+  // KEY_ADMINS (comma-separated emails) lists who may change organization keys from the sidebar.
+  // The old API_KEY property still works for OpenAI and search until their own keys are set.
+  // Prompt suggestions use Google Programmable Search: GOOGLE_CSE_API_KEY and GOOGLE_CSE_ID.
+  // Any OpenAI-compatible endpoint can be added with CUSTOM_OPENAI_BASE_URL,
+  // CUSTOM_OPENAI_MODELS (comma-separated) and an optional CUSTOM_OPENAI_API_KEY.
+  // Rate limits can be tuned per provider, e.g. OPENAI_CONCURRENCY, OPENAI_RPM, OPENAI_TPM.
+  // Cached responses expire after RESPONSE_CACHE_TTL_SECONDS (default and maximum 21600).
+
   // This function is just for documentation. The actual key should be set in Project Settings.
-  const apiKey =
-    PropertiesService.getScriptProperties().getProperty("OPENAI_API_KEY");
+  const apiKey = SettingsService.getKey("OPENAI_API_KEY");
   if (!apiKey) {
     throw new Error(
-      "OpenAI API key not found in Script Properties. Please add it in Project Settings."
+      "OpenAI API key not found. Add it in Project Settings or in the sidebar settings."
     );
   }
   return true;
@@ -196,7 +680,7 @@ function testLanguageModel() {
     rowCount: 1,
     prompt: "Write a short greeting",
     systemInstructions: "You are a friendly assistant.",
-    model: "gpt-4",
+    model: "gpt-4o-mini",
   };
 
   try {
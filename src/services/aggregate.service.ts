@@ -0,0 +1,414 @@
+import 'google-apps-script';
+import { HistoryService, RunRecord } from './history.service';
+import { ModelCatalogService } from './model-catalog.service';
+import { PostProcessService } from './post-process.service';
+import { CompletionRequest, TokenUsage } from './provider.service';
+import { EstimateResult, PromptConfig, PromptPlan, PromptResult, PromptService } from './prompt.service';
+import { CellWrite, SpreadsheetService } from './spreadsheet.service';
+import { TemplateService } from './template.service';
+import { UndoService } from './undo.service';
+import { UsageService } from './usage.service';
+
+/**
+ * Aggregate mode: the prompt is asked once about all input rows instead of once per row.
+ * The answer goes to a single cell, or to a table starting at that cell.
+ */
+export interface AggregateConfig {
+  // Top-left cell on the output sheet, e.g. "F2"; the output column's first row by default
+  targetCell?: string;
+  output?: 'cell' | 'table';
+  // Asked of each part when the rows don't fit in one request; the prompt itself by default
+  mapPrompt?: string;
+}
+
+/**
+ * Where an aggregate run is, for the sidebar to poll while the run is going
+ */
+export interface AggregateProgress {
+  stage: 'reading' | 'map' | 'reduce' | 'writing' | 'done' | 'failed';
+  completed: number;
+  total: number;
+  message: string;
+  updatedAt: string;
+}
+
+interface AggregateState {
+  runId: string;
+  startedAt: Date;
+  usage: TokenUsage;
+  cost: number;
+  requests: number;
+}
+
+export class AggregateService {
+  private static readonly PROGRESS_KEY = 'aggregateProgress';
+  private static readonly PROGRESS_TTL_SECONDS = 600;
+
+  private static readonly CHARS_PER_TOKEN = 4;
+  // Parts are kept well below large context windows: answers get vaguer as the input grows
+  private static readonly MAX_PART_TOKENS = 12000;
+  private static readonly DEFAULT_CONTEXT_WINDOW = 16000;
+  private static readonly OUTPUT_TOKENS = 1500;
+  // Parts sent at once; progress is reported after each batch
+  private static readonly BATCH_SIZE = 5;
+  private static readonly MAX_REDUCE_LEVELS = 4;
+  private static readonly MAX_CELL_LENGTH = 50000;
+
+  // Leave headroom below the 6 minute execution limit for the final answer and writing
+  private static readonly TIME_BUDGET_MS = 4.5 * 60 * 1000;
+
+  /**
+   * Asks the prompt about all input rows and writes one answer. Rows that don't fit in one
+   * request are split into parts; each part is answered on its own (map) and the partial
+   * answers are combined (reduce), in several rounds if they don't fit together either.
+   */
+  static run(config: PromptConfig, source: RunRecord['source']): PromptResult {
+    const state: AggregateState = {
+      runId: Utilities.getUuid(),
+      startedAt: new Date(),
+      usage: { inputTokens: 0, outputTokens: 0 },
+      cost: 0,
+      requests: 0
+    };
+    let rowCount = 0;
+    let answer = '';
+    let message = '';
+    let success = false;
+
+    try {
+      this.setProgress('reading', 0, 0, 'Reading the input rows');
+      const plan = this.createPlan(config);
+      const target = this.getTarget(config, plan.outputRowOffset);
+      const { prompt, lines, parts, budget } = this.prepare(plan);
+      rowCount = lines.length;
+      const format = config.aggregate?.output === 'table'
+        ? 'Reply with only a markdown table, without text before or after it.'
+        : 'Reply with only the answer, ready to paste into a single spreadsheet cell.';
+
+      if (parts.length === 1) {
+        this.setProgress('map', 0, 1, `Asking about ${rowCount} rows`);
+        answer = this.complete(plan, state, [
+          `${prompt}\n\n${format}\n\nData (${rowCount} rows):\n${parts[0]}`
+        ])[0];
+      } else {
+        answer = this.mapReduce(plan, state, prompt, format, parts, lines.map(line => line.row), budget);
+      }
+
+      this.setProgress('writing', 0, 0, `Writing the answer to ${config.outputSheet}!${target.column}${target.row}`);
+      const cells = this.toCells(answer, config.aggregate?.output === 'table', target);
+      UndoService.snapshot(state.runId, config.outputSheet, cells);
+      const writeResult = SpreadsheetService.writeCells(config.outputSheet, cells);
+      if (!writeResult.success) throw new Error(writeResult.message);
+
+      message = `Answered from ${rowCount} rows${parts.length > 1 ? ` in ${parts.length} parts` : ''} ` +
+        `and wrote it to ${config.outputSheet}!${target.column}${target.row}`;
+      success = true;
+      this.setProgress('done', 1, 1, message);
+    } catch (error) {
+      console.error('Aggregate run failed:', error);
+      message = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.setProgress('failed', 0, 0, message);
+    }
+
+    UsageService.recordSpend(state.cost);
+    PromptService.saveLastRun(config, [], state.usage, state.cost);
+    const finishedAt = new Date();
+    const record = HistoryService.recordRun({
+      id: state.runId,
+      source,
+      status: success ? 'completed' : 'failed',
+      config,
+      model: config.model,
+      modelType: config.modelType,
+      startedAt: state.startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - state.startedAt.getTime(),
+      rowsProcessed: success ? rowCount : 0,
+      rowsFailed: 0,
+      rowsSkipped: 0,
+      usage: state.usage,
+      cost: state.cost,
+      samples: answer ? [{ row: 0, input: config.prompt, output: answer }] : [],
+      message
+    });
+
+    return {
+      success,
+      message,
+      results: answer ? [answer] : [],
+      usage: state.usage,
+      cost: state.cost,
+      runId: success ? record.id : undefined
+    };
+  }
+
+  /**
+   * Estimates the tokens and cost of a run from the length of the input, without calling the model.
+   * Partial answers are assumed to be as long as allowed, so the estimate errs on the high side.
+   */
+  static estimate(config: PromptConfig): EstimateResult {
+    try {
+      const plan = this.createPlan(config);
+      const { prompt, lines, parts } = this.prepare(plan);
+      const requests = parts.length === 1 ? 1 : parts.length + 1 + Math.floor(parts.length / this.BATCH_SIZE);
+      const usage: TokenUsage = {
+        inputTokens: Math.ceil((this.totalLength(parts) + (prompt.length + 500) * requests) / this.CHARS_PER_TOKEN) +
+          (requests - 1) * this.OUTPUT_TOKENS,
+        outputTokens: requests * this.OUTPUT_TOKENS
+      };
+      const cost = UsageService.getCost(config.model, usage);
+      const priced = !!UsageService.getPrice(config.model);
+
+      return {
+        success: true,
+        message: priced
+          ? `About $${cost.toFixed(2)} for ${lines.length} rows in ${requests} request${requests === 1 ? '' : 's'}`
+          : `No price is known for ${config.model}; ${lines.length} rows would be read in ${requests} request${requests === 1 ? '' : 's'}`,
+        rows: lines.length,
+        requests,
+        usage,
+        cost,
+        priced,
+        budgetWarning: UsageService.checkBudget(0, cost) || undefined
+      };
+    } catch (error) {
+      console.error('Error estimating aggregate run:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * The current or last aggregate run of the user, if it finished less than 10 minutes ago
+   */
+  static getProgress(): AggregateProgress | null {
+    const json = CacheService.getUserCache()?.get(this.PROGRESS_KEY);
+    return json ? JSON.parse(json) : null;
+  }
+
+  private static createPlan(config: PromptConfig): PromptPlan {
+    const plan = PromptService.createPlan(config);
+    if (plan.modelType === 'image' || plan.extractionFields || plan.classification || plan.translation || plan.postProcess) {
+      throw new Error('Aggregate mode only works with plain prompts, not with images, extraction, classification, translation or output clean-up');
+    }
+    return plan;
+  }
+
+  /**
+   * Reads the input and splits it into parts that each fit into one request with the prompt
+   */
+  private static prepare(plan: PromptPlan): { prompt: string; lines: { row: number; text: string }[]; parts: string[]; budget: number } {
+    const { config } = plan;
+    const lines = this.readLines(plan);
+    if (!lines.length) throw new Error('No input data found in the specified range');
+
+    // {{Header}} variables only pick the columns to read; the prompt names them in words
+    const prompt = TemplateService.render(config.prompt, Object.fromEntries(plan.variables.map(variable => [variable, variable])));
+    const budget = this.getPartBudget(config.model, prompt + (config.aggregate?.mapPrompt || '') + (config.systemInstructions || ''));
+    return { prompt, lines, parts: this.split(lines.map(line => line.text), budget), budget };
+  }
+
+  /**
+   * Answers each part, then combines the partial answers until they fit into one final request
+   */
+  private static mapReduce(
+    plan: PromptPlan,
+    state: AggregateState,
+    prompt: string,
+    format: string,
+    parts: string[],
+    rows: number[],
+    budget: number
+  ): string {
+    const mapPrompt = plan.config.aggregate?.mapPrompt?.trim() || prompt;
+    const ranges = this.getPartRanges(parts, rows);
+    const mapPrompts = parts.map((part, index) =>
+      `${mapPrompt}\n\nThe data is too long to read at once, so it is split into ${parts.length} parts. ` +
+      `This is part ${index + 1} (rows ${ranges[index]}). Answer for this part only; your answer will be ` +
+      'combined with the answers for the other parts, so keep counts, examples and row numbers that matter.' +
+      `\n\nData:\n${part}`);
+
+    let notes: string[] = [];
+    for (let start = 0; start < mapPrompts.length; start += this.BATCH_SIZE) {
+      this.setProgress('map', start, parts.length, `Reading part ${start + 1} of ${parts.length}`);
+      const answers = this.complete(plan, state, mapPrompts.slice(start, start + this.BATCH_SIZE));
+      notes.push(...answers.map((answer, index) => `Notes on rows ${ranges[start + index]}:\n${answer}`));
+    }
+
+    // Combine the notes in groups until they fit into the final request
+    for (let level = 1; this.totalLength(notes) > budget; level++) {
+      if (level > this.MAX_REDUCE_LEVELS) {
+        throw new Error('The partial answers are too long to combine. Ask for a shorter answer or narrow the range.');
+      }
+      const groups = this.split(notes, budget, '\n\n');
+      this.setProgress('reduce', 0, groups.length, `Combining ${notes.length} partial answers`);
+      const combined: string[] = [];
+      for (let start = 0; start < groups.length; start += this.BATCH_SIZE) {
+        combined.push(...this.complete(plan, state, groups.slice(start, start + this.BATCH_SIZE).map(group =>
+          `${prompt}\n\nBelow are notes on parts of the data. Combine them into one set of notes, merging duplicates ` +
+          `and adding up counts. Keep row numbers that matter.\n\n${group}`)));
+        this.setProgress('reduce', Math.min(start + this.BATCH_SIZE, groups.length), groups.length, `Combining ${notes.length} partial answers`);
+      }
+      notes = combined.map((answer, index) => `Notes ${index + 1}:\n${answer}`);
+    }
+
+    this.setProgress('reduce', 0, 1, 'Writing the final answer');
+    return this.complete(plan, state, [
+      `${prompt}\n\nThe data was too long to read at once, so it was read in ${parts.length} parts. Below are notes on each ` +
+      'part. Combine them into one answer to the request above, merging duplicates and adding up counts across parts. ' +
+      `${format}\n\n${notes.join('\n\n')}`
+    ])[0];
+  }
+
+  /**
+   * Sends requests at once, stopping before the budget or the time limit would be exceeded.
+   * Any failed request fails the run: an answer missing part of the data would be misleading.
+   */
+  private static complete(plan: PromptPlan, state: AggregateState, prompts: string[]): string[] {
+    const { config } = plan;
+    if (Date.now() - state.startedAt.getTime() > this.TIME_BUDGET_MS) {
+      throw new Error(`Stopped after ${state.requests} requests to stay within the time limit. ` +
+        'Narrow the range or choose a model with a larger context window.');
+    }
+
+    const requests: CompletionRequest[] = prompts.map(prompt => ({
+      model: config.model,
+      prompt,
+      systemInstructions: config.systemInstructions,
+      params: { ...plan.generation, maxOutputTokens: plan.generation?.maxOutputTokens || this.OUTPUT_TOKENS }
+    }));
+    const estimate = UsageService.getCost(config.model, {
+      inputTokens: Math.ceil(this.totalLength(prompts) / this.CHARS_PER_TOKEN),
+      outputTokens: prompts.length * this.OUTPUT_TOKENS
+    });
+    const budgetReason = UsageService.checkBudget(state.cost, estimate);
+    if (budgetReason) throw new Error(budgetReason);
+
+    const outcomes = PromptService.dispatchWithCache(requests, !!config.bypassCache);
+    state.requests += requests.length;
+    return outcomes.map(outcome => {
+      if (outcome.usage) {
+        state.usage.inputTokens += outcome.usage.inputTokens;
+        state.usage.outputTokens += outcome.usage.outputTokens;
+        state.cost += UsageService.getCost(config.model, outcome.usage);
+      }
+      if (!outcome.success) throw new Error(outcome.error || 'The model didn\'t answer');
+      return (outcome.value || '').trim();
+    });
+  }
+
+  /**
+   * Reads the non-empty input rows as "Row 12: text" lines; several columns are labelled by header
+   */
+  private static readLines(plan: PromptPlan): { row: number; text: string }[] {
+    const { config } = plan;
+    const { columns } = plan;
+    let rows = config.rows?.length
+      ? config.rows
+      : SpreadsheetService.getRowNumbers(config.inputSheet, config.startRow, plan.rowCount);
+    if (config.visibleRowsOnly) {
+      rows = SpreadsheetService.filterVisibleRows(config.inputSheet, rows);
+    }
+
+    const headers = columns.length > 1
+      ? SpreadsheetService.getColumnHeaders(config.inputSheet, config.headerRow || SpreadsheetService.getHeaderRow(config.inputSheet))
+      : new Map<string, string>();
+    return SpreadsheetService.getRowsByNumbers(config.inputSheet, columns, rows)
+      .map((record, index) => {
+        const values = columns
+          .map(column => ({ label: headers.get(column) || column, value: record[column].replace(/\s+/g, ' ').trim() }))
+          .filter(item => item.value);
+        const text = columns.length > 1
+          ? values.map(item => `${item.label}: ${item.value}`).join(' | ')
+          : values.map(item => item.value).join('');
+        return { row: rows[index], text: text ? `Row ${rows[index]}: ${text}` : '' };
+      })
+      .filter(line => line.text);
+  }
+
+  /**
+   * Characters of data that fit into one request next to the prompt and the answer
+   */
+  private static getPartBudget(model: string, prompt: string): number {
+    const contextWindow = ModelCatalogService.findModel(model)?.contextWindow || this.DEFAULT_CONTEXT_WINDOW;
+    const tokens = Math.min(contextWindow, this.MAX_PART_TOKENS) - this.OUTPUT_TOKENS - Math.ceil((prompt.length + 500) / this.CHARS_PER_TOKEN);
+    if (tokens < 1000) throw new Error('The prompt leaves no room for data. Shorten it or choose a model with a larger context window.');
+    return tokens * this.CHARS_PER_TOKEN;
+  }
+
+  /**
+   * Packs items into parts of at most budget characters, keeping their order.
+   * An item longer than a whole part is shortened.
+   */
+  private static split(items: string[], budget: number, separator: string = '\n'): string[] {
+    const parts: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+    items.forEach(item => {
+      const text = item.length > budget ? `${item.slice(0, budget - 1)}…` : item;
+      if (current.length && length + separator.length + text.length > budget) {
+        parts.push(current.join(separator));
+        current = [];
+        length = 0;
+      }
+      current.push(text);
+      length += text.length + separator.length;
+    });
+    if (current.length) parts.push(current.join(separator));
+    return parts;
+  }
+
+  /**
+   * First and last row of each part, e.g. "2-418"
+   */
+  private static getPartRanges(parts: string[], rows: number[]): string[] {
+    let next = 0;
+    return parts.map(part => {
+      const count = part.split('\n').filter(line => /^Row \d+: /.test(line)).length;
+      const first = rows[next];
+      const last = rows[Math.min(next + count, rows.length) - 1];
+      next += count;
+      return first === last ? String(first) : `${first}-${last}`;
+    });
+  }
+
+  private static getTarget(config: PromptConfig, outputRowOffset: number): { row: number; column: string } {
+    const cell = config.aggregate?.targetCell?.trim();
+    if (cell) {
+      const match = cell.match(/^([A-Za-z]{1,3})(\d+)$/);
+      if (!match) throw new Error(`"${cell}" isn't a cell like F2`);
+      return { column: match[1].toUpperCase(), row: parseInt(match[2]) };
+    }
+    const firstRow = config.rows?.length ? config.rows[0] : config.startRow;
+    return { column: config.outputColumn.toUpperCase(), row: firstRow + outputRowOffset };
+  }
+
+  /**
+   * The answer as cells: one cell, or a table's cells when asked for and the answer has one
+   */
+  private static toCells(answer: string, asTable: boolean, target: { row: number; column: string }): CellWrite[] {
+    const table = asTable ? PostProcessService.parseTable(answer) : [];
+    if (!table.length) {
+      const value = answer.length > this.MAX_CELL_LENGTH ? `${answer.slice(0, this.MAX_CELL_LENGTH - 1)}…` : answer;
+      return [{ row: target.row, column: target.column, value }];
+    }
+
+    const firstColumn = SpreadsheetService.letterToColumn(target.column);
+    return table.flatMap((cells, rowIndex) => cells.map((value, columnIndex) => ({
+      row: target.row + rowIndex,
+      column: SpreadsheetService.columnToLetter(firstColumn + columnIndex),
+      value
+    })));
+  }
+
+  private static setProgress(stage: AggregateProgress['stage'], completed: number, total: number, message: string): void {
+    const progress: AggregateProgress = { stage, completed, total, message, updatedAt: new Date().toISOString() };
+    CacheService.getUserCache()?.put(this.PROGRESS_KEY, JSON.stringify(progress), this.PROGRESS_TTL_SECONDS);
+  }
+
+  private static totalLength(texts: string[]): number {
+    return texts.reduce((sum, text) => sum + text.length + 2, 0);
+  }
+}
@@ -0,0 +1,171 @@
+import 'google-apps-script';
+import { SpreadsheetService } from './spreadsheet.service';
+
+export type ClassificationDetail = 'none' | 'confidence' | 'rationale';
+
+export interface ClassificationOptions {
+  labels: string[];
+  multiLabel: boolean;
+  detail: ClassificationDetail;
+}
+
+export interface ClassificationResult {
+  labels: string[];
+  invalid: string[];
+  detail: string;
+}
+
+export class ClassificationService {
+  private static readonly RANGE_PATTERN = /^(?:'[^']+'|[^,!]+)?!?\$?[A-Za-z]{1,3}\$?\d*(?::\$?[A-Za-z]{1,3}\$?\d*)?$/;
+
+  /**
+   * Reads the allowed labels from a typed list ("Positive, Neutral, Negative") or a range
+   * in A1 notation ("Labels!A2:A" or "F2:F10"). Text that only looks like a range, such as
+   * "Yes:No", is read as labels unless that range exists and holds values.
+   * Duplicates are dropped, first spelling wins.
+   */
+  static resolveLabels(source: string): string[] {
+    const text = (source || '').trim();
+
+    const range = this.RANGE_PATTERN.test(text) && text.includes(':') ? this.findRange(text) : null;
+    const rangeLabels = range ? range.getDisplayValues().flat().filter(label => label.trim()) : [];
+    // Without commas or line breaks, "Yes:No" means two labels
+    const labels = rangeLabels.length ? rangeLabels : text.split(/[,\n]/.test(text) ? /[,\n]/ : ':');
+
+    const unique = new Map<string, string>();
+    labels.map(label => label.trim()).filter(Boolean).forEach(label => {
+      if (!unique.has(label.toLowerCase())) unique.set(label.toLowerCase(), label);
+    });
+
+    if (!unique.size) {
+      throw new Error('List at least one label to classify into');
+    }
+    return Array.from(unique.values());
+  }
+
+  /**
+   * System instructions that restrict the answer to the labels
+   */
+  static buildInstructions(options: ClassificationOptions): string {
+    const count = options.multiLabel ? 'one or more of these labels' : 'exactly one of these labels';
+    const detail = options.detail === 'confidence'
+      ? ' Also give your confidence as a number between 0 and 1.'
+      : options.detail === 'rationale' ? ' Also give a one-sentence rationale.' : '';
+
+    return `Classify the content into ${count}: ${options.labels.join(', ')}. ` +
+      `Use the labels exactly as written.${detail} Reply with only a JSON object.`;
+  }
+
+  /**
+   * JSON schema for the answer, with the labels as an enum so structured-output providers
+   * can't return anything else
+   */
+  static buildSchema(options: ClassificationOptions): Record<string, unknown> {
+    const label = { type: 'string', enum: options.labels };
+    const properties: Record<string, unknown> = options.multiLabel
+      ? { labels: { type: 'array', items: label } }
+      : { label };
+
+    if (options.detail === 'confidence') properties.confidence = { type: 'number' };
+    if (options.detail === 'rationale') properties.rationale = { type: 'string' };
+
+    return {
+      type: 'object',
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false
+    };
+  }
+
+  /**
+   * Reads the labels (and confidence or rationale) from a response. Answers that aren't JSON
+   * are treated as a plain label list. Labels are normalized to the allowed spelling;
+   * anything that can't be matched is returned in invalid.
+   */
+  static parseResponse(text: string, options: ClassificationOptions): ClassificationResult {
+    let answers: string[];
+    let detail = '';
+
+    try {
+      const data = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      const raw = options.multiLabel ? data.labels ?? data.label : data.label ?? data.labels;
+      answers = (Array.isArray(raw) ? raw : [raw]).filter(value => value !== null && value !== undefined).map(String);
+      if (options.detail === 'confidence' && typeof data.confidence === 'number') {
+        detail = String(Math.max(0, Math.min(1, data.confidence)));
+      } else if (options.detail === 'rationale' && data.rationale) {
+        detail = String(data.rationale);
+      }
+    } catch (error) {
+      answers = options.multiLabel ? text.split(/[,\n;]/) : [text];
+    }
+
+    const labels: string[] = [];
+    const invalid: string[] = [];
+    answers.map(answer => answer.trim()).filter(Boolean).forEach(answer => {
+      const label = this.normalizeLabel(answer, options.labels);
+      if (!label) {
+        invalid.push(answer);
+      } else if (!labels.includes(label)) {
+        labels.push(label);
+      }
+    });
+
+    if (!options.multiLabel && labels.length > 1) {
+      invalid.push(...labels.splice(1));
+    }
+    if (!labels.length && !invalid.length) {
+      invalid.push(text.trim());
+    }
+
+    return { labels, invalid, detail };
+  }
+
+  /**
+   * Maps an answer to an allowed label: exact match ignoring case, then ignoring punctuation,
+   * then the only label mentioned in a longer answer. Returns null if none fits.
+   */
+  static normalizeLabel(answer: string, labels: string[]): string | null {
+    const simplify = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+    const trimmed = answer.replace(/^["'*\s]+|["'.*\s]+$/g, '').toLowerCase();
+    const exact = labels.find(label => label.toLowerCase() === trimmed);
+    if (exact) return exact;
+
+    const loose = labels.find(label => simplify(label) === simplify(answer));
+    if (loose) return loose;
+
+    const mentioned = labels.filter(label =>
+      new RegExp(`\\b${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(answer)
+    );
+    return mentioned.length === 1 ? mentioned[0] : null;
+  }
+
+  /**
+   * Adds a dropdown with the labels to the given rows of a column, one range per block of
+   * consecutive rows. Other values only show a warning, so multi-label answers, error markers
+   * and later writes to these cells still go through.
+   */
+  static applyDropdown(sheetName: string, column: string, rows: number[], options: ClassificationOptions): void {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+    if (!rows.length) return;
+
+    const rule = SpreadsheetApp.newDataValidation()
+      .requireValueInList(options.labels, true)
+      .setAllowInvalid(true)
+      .build();
+    const columnIndex = SpreadsheetService.letterToColumn(column);
+    SpreadsheetService.formatRowList(rows).split(',').forEach(block => {
+      const [from, to = from] = block.split('-').map(Number);
+      sheet.getRange(from, columnIndex, to - from + 1, 1).setDataValidation(rule);
+    });
+  }
+
+  private static findRange(notation: string): GoogleAppsScript.Spreadsheet.Range | null {
+    try {
+      return SpreadsheetApp.getActiveSpreadsheet().getRange(notation);
+    } catch (error) {
+      return null;
+    }
+  }
+}
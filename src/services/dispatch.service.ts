@@ -0,0 +1,244 @@
+import 'google-apps-script';
+import { CompletionRequest, CompletionResponse, ModelProvider, ProviderService } from './provider.service';
+import { SettingsService } from './settings.service';
+
+export interface RateLimits {
+  concurrency: number;
+  rpm: number;
+  tpm: number;
+}
+
+export interface DispatchOutcome {
+  success: boolean;
+  response?: CompletionResponse;
+  error?: string;
+  attempts: number;
+}
+
+interface PendingCall {
+  index: number;
+  httpRequest: GoogleAppsScript.URL_Fetch.URLFetchRequest;
+  estimatedTokens: number;
+  attempts: number;
+  notBefore: number;
+}
+
+/**
+ * Token bucket that refills continuously up to its capacity
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private readonly refillPerMs: number;
+
+  constructor(private readonly capacity: number) {
+    this.tokens = capacity;
+    this.lastRefill = Date.now();
+    this.refillPerMs = capacity / 60000;
+  }
+
+  /**
+   * Takes tokens from the bucket and returns how long the caller must wait (ms)
+   * before the request fits into the per-minute budget
+   */
+  take(amount: number): number {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+
+    // Requests larger than the whole bucket would never fit, so cap them at the capacity
+    this.tokens -= Math.min(amount, this.capacity);
+    return this.tokens >= 0 ? 0 : Math.ceil(-this.tokens / this.refillPerMs);
+  }
+}
+
+export class DispatchService {
+  private static readonly MAX_ATTEMPTS = 5;
+  private static readonly BASE_BACKOFF_MS = 1000;
+  private static readonly MAX_BACKOFF_MS = 60000;
+  private static readonly OUTPUT_TOKEN_ESTIMATE = 1000;
+
+  private static readonly DEFAULT_LIMITS: RateLimits = { concurrency: 5, rpm: 60, tpm: 100000 };
+
+  private static requestBuckets = new Map<string, TokenBucket>();
+  private static tokenBuckets = new Map<string, TokenBucket>();
+
+  /**
+   * Gets the rate limits for a provider. Provider defaults can be overridden with
+   * script properties, e.g. OPENAI_CONCURRENCY, OPENAI_RPM and OPENAI_TPM.
+   */
+  static getLimits(provider: ModelProvider): RateLimits {
+    const scriptProperties = PropertiesService.getScriptProperties();
+    const prefix = provider.id.toUpperCase();
+    const limits = { ...this.DEFAULT_LIMITS, ...provider.defaultLimits };
+
+    (['concurrency', 'rpm', 'tpm'] as (keyof RateLimits)[]).forEach(name => {
+      const override = parseInt(scriptProperties.getProperty(`${prefix}_${name.toUpperCase()}`) || '');
+      if (override > 0) {
+        limits[name] = override;
+      }
+    });
+
+    return limits;
+  }
+
+  /**
+   * Sends completion requests in parallel batches with UrlFetchApp.fetchAll.
+   * Each provider gets its own concurrency and rate limits, and 429/5xx responses
+   * are retried with exponential backoff. Outcomes are returned in request order.
+   */
+  static dispatch(requests: CompletionRequest[]): DispatchOutcome[] {
+    const outcomes: DispatchOutcome[] = new Array(requests.length);
+    const groups = new Map<ModelProvider, PendingCall[]>();
+
+    requests.forEach((request, index) => {
+      try {
+        if (!request.prompt || request.prompt.trim() === '') {
+          throw new Error('Prompt cannot be empty');
+        }
+
+        const { provider, model } = ProviderService.resolve(request.model);
+        const apiKey = ProviderService.getApiKey(provider);
+        const httpRequest = provider.buildRequest({ ...request, model }, apiKey);
+
+        const calls = groups.get(provider) || [];
+        calls.push({
+          index,
+          httpRequest,
+          estimatedTokens: this.estimateTokens(request),
+          attempts: 0,
+          notBefore: 0
+        });
+        groups.set(provider, calls);
+      } catch (error) {
+        outcomes[index] = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          attempts: 0
+        };
+      }
+    });
+
+    groups.forEach((calls, provider) => {
+      this.dispatchToProvider(provider, calls, outcomes);
+    });
+
+    return outcomes;
+  }
+
+  private static dispatchToProvider(provider: ModelProvider, calls: PendingCall[], outcomes: DispatchOutcome[]): void {
+    const limits = this.getLimits(provider);
+    const requestBucket = this.getBucket(this.requestBuckets, provider.id, limits.rpm);
+    const tokenBucket = this.getBucket(this.tokenBuckets, provider.id, limits.tpm);
+    let queue = calls;
+
+    while (queue.length) {
+      const batch = queue.slice(0, limits.concurrency);
+      queue = queue.slice(limits.concurrency);
+
+      // Wait for the rate limiters and for any retry delay in this batch
+      let waitMs = Math.max(0, ...batch.map(call => call.notBefore - Date.now()));
+      batch.forEach(call => {
+        waitMs = Math.max(waitMs, requestBucket.take(1), tokenBucket.take(call.estimatedTokens));
+      });
+      if (waitMs > 0) {
+        console.log(`Rate limiting ${provider.name}: waiting ${waitMs}ms before next batch`);
+        Utilities.sleep(waitMs);
+      }
+
+      let responses: GoogleAppsScript.URL_Fetch.HTTPResponse[];
+      try {
+        responses = UrlFetchApp.fetchAll(batch.map(call => call.httpRequest));
+      } catch (error) {
+        // A DNS failure, timeout or bandwidth quota fails the whole batch; the other batches still run
+        const message = SettingsService.redact(error instanceof Error ? error : 'Unknown error');
+        console.error(`Error calling ${provider.name} API:`, message);
+        batch.forEach(call => {
+          outcomes[call.index] = {
+            success: false,
+            error: `${provider.name} Error: ${message}`,
+            attempts: call.attempts + 1
+          };
+        });
+        continue;
+      }
+      const retries: PendingCall[] = [];
+
+      responses.forEach((response, i) => {
+        const call = batch[i];
+        call.attempts++;
+        const statusCode = response.getResponseCode();
+
+        if ((statusCode === 429 || statusCode >= 500) && call.attempts < this.MAX_ATTEMPTS) {
+          call.notBefore = Date.now() + this.getRetryDelay(response, call.attempts);
+          retries.push(call);
+          return;
+        }
+
+        try {
+          outcomes[call.index] = {
+            success: true,
+            response: provider.parseResponse(response),
+            attempts: call.attempts
+          };
+        } catch (error) {
+          const message = SettingsService.redact(error instanceof Error ? error : 'Unknown error');
+          console.error(`Error calling ${provider.name} API:`, message);
+          outcomes[call.index] = {
+            success: false,
+            error: `${provider.name} Error: ${message}`,
+            attempts: call.attempts
+          };
+        }
+      });
+
+      if (retries.length) {
+        console.log(`Retrying ${retries.length} ${provider.name} request(s)`);
+        // Retries go to the front so rows finish roughly in order
+        queue = retries.concat(queue);
+      }
+    }
+  }
+
+  /**
+   * Uses the provider's Retry-After header when present, otherwise exponential backoff with jitter
+   */
+  private static getRetryDelay(response: GoogleAppsScript.URL_Fetch.HTTPResponse, attempt: number): number {
+    const headers = response.getHeaders() as Record<string, string>;
+    const headerName = (name: string) => Object.keys(headers).find(key => key.toLowerCase() === name);
+
+    const retryAfterMs = headerName('retry-after-ms');
+    if (retryAfterMs && !isNaN(Number(headers[retryAfterMs]))) {
+      return Math.min(this.MAX_BACKOFF_MS, Number(headers[retryAfterMs]));
+    }
+
+    const retryAfter = headerName('retry-after');
+    if (retryAfter) {
+      const value = headers[retryAfter];
+      const delay = isNaN(Number(value)) ? new Date(value).getTime() - Date.now() : Number(value) * 1000;
+      if (delay >= 0) {
+        return Math.min(this.MAX_BACKOFF_MS, delay);
+      }
+    }
+
+    const backoff = this.BASE_BACKOFF_MS * Math.pow(2, attempt - 1);
+    return Math.min(this.MAX_BACKOFF_MS, backoff + Math.floor(Math.random() * this.BASE_BACKOFF_MS));
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token) plus the expected output
+   */
+  private static estimateTokens(request: CompletionRequest): number {
+    const inputLength = request.prompt.length + (request.systemInstructions || '').length;
+    return Math.ceil(inputLength / 4) + this.OUTPUT_TOKEN_ESTIMATE;
+  }
+
+  private static getBucket(buckets: Map<string, TokenBucket>, providerId: string, capacity: number): TokenBucket {
+    let bucket = buckets.get(providerId);
+    if (!bucket) {
+      bucket = new TokenBucket(capacity);
+      buckets.set(providerId, bucket);
+    }
+    return bucket;
+  }
+}
@@ -0,0 +1,160 @@
+import 'google-apps-script';
+import { SpreadsheetService } from './spreadsheet.service';
+
+export type ExtractionFieldType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ExtractionField {
+  name: string;
+  type: ExtractionFieldType;
+  column: string;
+}
+
+export interface ExtractionResult {
+  values: Record<string, string>;
+  errors: Record<string, string>;
+  error?: string;
+}
+
+export class ExtractionService {
+  private static readonly TYPES: ExtractionFieldType[] = ['string', 'number', 'integer', 'boolean'];
+  private static readonly FIELD_PATTERN = /^([A-Za-z_][\w ]*?)\s*(?::\s*([A-Za-z]+))?\s*(?:@\s*([A-Za-z]+))?$/;
+
+  /**
+   * Parses a field list such as "brand, weight_kg:number, in_stock:boolean@F".
+   * Fields without an explicit @column fill the columns to the right of the first output column.
+   * Throws on malformed entries, unknown types or duplicate names/columns.
+   */
+  static parseFields(spec: string, firstColumn: string): ExtractionField[] {
+    const entries = spec.split(/[,\n]/).map(entry => entry.trim()).filter(Boolean);
+    if (!entries.length) {
+      throw new Error('List at least one field to extract');
+    }
+
+    let nextColumn = SpreadsheetService.letterToColumn(firstColumn.toUpperCase());
+    const fields = entries.map(entry => {
+      const match = entry.match(this.FIELD_PATTERN);
+      if (!match) {
+        throw new Error(`Invalid extraction field "${entry}". Use name, name:type or name:type@column.`);
+      }
+
+      const [, name, typeName = 'string', column] = match;
+      const type = typeName.toLowerCase();
+      if (!this.TYPES.includes(type as ExtractionFieldType)) {
+        throw new Error(`Unknown type "${typeName}" for field ${name}. Use ${this.TYPES.join(', ')}.`);
+      }
+
+      const columnNumber = column ? SpreadsheetService.letterToColumn(column.toUpperCase()) : nextColumn;
+      nextColumn = columnNumber + 1;
+      return {
+        name: name.trim(),
+        type: type as ExtractionFieldType,
+        column: SpreadsheetService.columnToLetter(columnNumber)
+      };
+    });
+
+    const duplicate = (values: string[]) => values.find((value, index) => values.indexOf(value) !== index);
+    const duplicateName = duplicate(fields.map(field => field.name));
+    if (duplicateName) throw new Error(`Field ${duplicateName} is listed twice`);
+    const duplicateColumn = duplicate(fields.map(field => field.column));
+    if (duplicateColumn) throw new Error(`Two fields are mapped to column ${duplicateColumn}`);
+
+    return fields;
+  }
+
+  /**
+   * JSON schema for the fields. Every field is required but may be null when it isn't present,
+   * which keeps the schema valid for strict structured-output modes.
+   */
+  static buildSchema(fields: ExtractionField[]): Record<string, unknown> {
+    const properties: Record<string, unknown> = {};
+    fields.forEach(field => {
+      properties[field.name] = { type: [field.type, 'null'] };
+    });
+
+    return {
+      type: 'object',
+      properties,
+      required: fields.map(field => field.name),
+      additionalProperties: false
+    };
+  }
+
+  /**
+   * Instructions appended to the system prompt, for providers without schema enforcement
+   */
+  static buildInstructions(fields: ExtractionField[]): string {
+    const list = fields.map(field => `- ${field.name} (${field.type})`).join('\n');
+    return 'Extract the following fields from the content and reply with only a JSON object ' +
+      `with exactly these keys. Use null for any field that is not present.\n${list}`;
+  }
+
+  /**
+   * Parses a model response and coerces each field to its type.
+   * Sets error if the response isn't a JSON object; per-field problems go in errors.
+   */
+  static parseResponse(text: string, fields: ExtractionField[]): ExtractionResult {
+    const result: ExtractionResult = { values: {}, errors: {} };
+
+    let parsed: unknown;
+    try {
+      // Models sometimes wrap JSON in a markdown code fence despite JSON mode
+      parsed = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    } catch (error) {
+      result.error = `Response is not valid JSON: ${text.slice(0, 200)}`;
+      return result;
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      result.error = `Expected a JSON object but got: ${text.slice(0, 200)}`;
+      return result;
+    }
+    const data = parsed as Record<string, unknown>;
+
+    fields.forEach(field => {
+      const value = data[field.name];
+      if (value === null || value === undefined || value === '') {
+        result.values[field.name] = '';
+        return;
+      }
+
+      const coerced = this.coerce(value, field.type);
+      if (coerced === null) {
+        result.errors[field.name] = `Expected ${field.type} for ${field.name} but got ${JSON.stringify(value)}`;
+      } else {
+        result.values[field.name] = coerced;
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Converts a JSON value to the cell text for a type, or null if it can't be converted
+   */
+  private static coerce(value: unknown, type: ExtractionFieldType): string | null {
+    switch (type) {
+      case 'string':
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      case 'number':
+      case 'integer': {
+        // Accept numbers given as text, e.g. "1,250" or "3.5 kg"
+        const number = typeof value === 'number'
+          ? value
+          : typeof value === 'string' && /^\s*-?[\d,]*\.?\d+\s*[^\d\s]*\s*$/.test(value)
+            ? parseFloat(value.replace(/,/g, ''))
+            : NaN;
+        if (!isFinite(number)) return null;
+        if (type === 'integer' && !Number.isInteger(number)) return null;
+        return String(number);
+      }
+      case 'boolean': {
+        if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+        const text = String(value).trim().toLowerCase();
+        if (['true', 'yes', 'y', '1'].includes(text)) return 'TRUE';
+        if (['false', 'no', 'n', '0'].includes(text)) return 'FALSE';
+        return null;
+      }
+      default:
+        return null;
+    }
+  }
+}
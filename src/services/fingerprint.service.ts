@@ -0,0 +1,105 @@
+import 'google-apps-script';
+import { SpreadsheetService } from './spreadsheet.service';
+
+/**
+ * Remembers fingerprints of the requests that produced each output target's answers, so later
+ * runs can skip rows whose input, prompt and settings haven't changed. Fingerprints aren't tied
+ * to row numbers, so sorting or inserting rows doesn't make other rows skip. They live in a
+ * hidden sheet, one set per output target.
+ */
+export class FingerprintService {
+  private static readonly SHEET_NAME = 'Sun Locke Fingerprints';
+  private static readonly HEADERS = ['Target', 'Part', 'Fingerprints'];
+
+  // Stay under the 50,000 character limit of a single cell
+  private static readonly MAX_PART_LENGTH = 45000;
+  // The least recently written fingerprints are forgotten beyond this
+  private static readonly MAX_FINGERPRINTS = 20000;
+
+  /**
+   * Short, stable fingerprint of a row's request
+   */
+  static compute(value: unknown): string {
+    const digest = Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, JSON.stringify(value), Utilities.Charset.UTF_8);
+    return Utilities.base64Encode(digest).slice(0, 12);
+  }
+
+  /**
+   * Identifies an output target, e.g. "Products!C,D"
+   */
+  static getTarget(sheetName: string, columns: string[]): string {
+    return `${sheetName}!${columns.join(',')}`;
+  }
+
+  /**
+   * Gets the fingerprints of the requests whose answers were written to a target
+   */
+  static load(target: string): Set<string> {
+    return new Set(Object.keys(this.loadEntries(target)));
+  }
+
+  /**
+   * Adds fingerprints of requests whose answers were just written to a target
+   */
+  static save(target: string, fingerprints: string[]): void {
+    if (!fingerprints.length) return;
+
+    const sheet = SpreadsheetService.getOrCreateHiddenSheet(this.SHEET_NAME, this.HEADERS);
+    const entries = this.loadEntries(target);
+    const now = Date.now();
+    fingerprints.forEach(fingerprint => {
+      entries[fingerprint] = now;
+    });
+    const kept = Object.entries(entries)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, this.MAX_FINGERPRINTS);
+
+    // Rewrite the target's parts; the JSON is split so each part fits in one cell
+    const parts: string[] = [];
+    let current: Record<string, number> = {};
+    let length = 2;
+    kept.forEach(([fingerprint, writtenAt]) => {
+      const entryLength = fingerprint.length + String(writtenAt).length + 4;
+      if (length + entryLength > this.MAX_PART_LENGTH) {
+        parts.push(JSON.stringify(current));
+        current = {};
+        length = 2;
+      }
+      current[fingerprint] = writtenAt;
+      length += entryLength;
+    });
+    parts.push(JSON.stringify(current));
+
+    this.findRows(sheet, target).reverse().forEach(row => sheet.deleteRow(row));
+    sheet
+      .getRange(sheet.getLastRow() + 1, 1, parts.length, this.HEADERS.length)
+      .setValues(parts.map((json, index) => [target, index + 1, json]));
+  }
+
+  /**
+   * Fingerprints with when they were last written. Entries keyed by row number, from before
+   * fingerprints were keyed by request, are dropped.
+   */
+  private static loadEntries(target: string): Record<string, number> {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(this.SHEET_NAME);
+    if (!sheet) return {};
+
+    const entries: Record<string, number> = {};
+    this.findRows(sheet, target).forEach(row => {
+      const part: Record<string, unknown> = JSON.parse(sheet.getRange(row, 3).getValue());
+      Object.entries(part).forEach(([fingerprint, writtenAt]) => {
+        if (typeof writtenAt === 'number') entries[fingerprint] = writtenAt;
+      });
+    });
+    return entries;
+  }
+
+  private static findRows(sheet: GoogleAppsScript.Spreadsheet.Sheet, target: string): number[] {
+    if (sheet.getLastRow() < 2) return [];
+    return sheet.getRange(2, 1, sheet.getLastRow() - 1, 1)
+      .createTextFinder(target)
+      .matchEntireCell(true)
+      .findAll()
+      .map(range => range.getRow());
+  }
+}
@@ -0,0 +1,192 @@
+import 'google-apps-script';
+import { ClassificationService } from './classification.service';
+import { ExtractionService } from './extraction.service';
+import { CompletionRequest, ProviderService } from './provider.service';
+import { ModelOutcome, PromptService } from './prompt.service';
+import { ResponseCacheService } from './response-cache.service';
+import { TemplateService } from './template.service';
+import { UsageService } from './usage.service';
+
+/**
+ * A custom function argument: a single value or a 2D array when a range is passed
+ */
+type FormulaInput = unknown;
+
+/**
+ * Backs the =SUNLOCKE(), =AI_CLASSIFY() and =AI_EXTRACT() custom functions. A range input
+ * is processed row by row and returns one result per row; responses come from the
+ * response cache where possible so recalculation doesn't call the provider again.
+ */
+export class FormulaService {
+  static readonly DEFAULT_MODEL = 'gpt-4o-mini';
+
+  private static readonly CHARS_PER_TOKEN = 4;
+  private static readonly ESTIMATED_OUTPUT_TOKENS = 300;
+
+  /**
+   * Runs a prompt for each input row. {{1}}, {{2}}, ... refer to the row's cells by position;
+   * without placeholders the row is appended as the content to process.
+   */
+  static prompt(prompt: string, input: FormulaInput, model?: string, systemInstructions?: string): string[][] | string {
+    if (!prompt) throw new Error('Prompt is required');
+
+    const rows = this.toRows(input);
+    const hasVariables = TemplateService.hasVariables(prompt);
+    const prompts = rows.map(row => {
+      if (row.every(value => value === '')) return null;
+      if (hasVariables) {
+        const values: Record<string, string> = {};
+        row.forEach((value, index) => {
+          values[String(index + 1)] = value;
+        });
+        return TemplateService.render(prompt, values);
+      }
+      return `${prompt}\n\nContent to process: ${row.join('\n')}`;
+    });
+
+    const outcomes = this.complete(prompts, model, systemInstructions);
+    return this.toResult(outcomes, value => [value]);
+  }
+
+  /**
+   * Classifies each input row into exactly one of the given labels
+   */
+  static classify(input: FormulaInput, labels: FormulaInput, model?: string): string[][] | string {
+    const labelList = this.toList(labels);
+    if (!labelList.length) throw new Error('List at least one label');
+
+    const instructions = `Classify the content into exactly one of these labels: ${labelList.join(', ')}. ` +
+      'Reply with the label only, without explanation.';
+    const prompts = this.toRows(input).map(row =>
+      row.every(value => value === '') ? null : row.join('\n')
+    );
+
+    const outcomes = this.complete(prompts, model, instructions);
+    return this.toResult(outcomes, value => {
+      const label = ClassificationService.normalizeLabel(value, labelList);
+      if (!label) throw new Error(`"${value.slice(0, 50)}" is not one of the labels`);
+      return [label];
+    });
+  }
+
+  /**
+   * Extracts fields from each input row. One field returns a column; several fields
+   * (e.g. "email, phone") return one column per field.
+   */
+  static extract(input: FormulaInput, fields: FormulaInput, model?: string): string[][] | string {
+    const spec = this.toList(fields).join(',');
+    // The column letter only matters for sheet writes, so any starting column will do
+    const extractionFields = ExtractionService.parseFields(spec, 'A');
+    const prompts = this.toRows(input).map(row =>
+      row.every(value => value === '') ? null : row.join('\n')
+    );
+
+    const outcomes = this.complete(
+      prompts,
+      model,
+      ExtractionService.buildInstructions(extractionFields),
+      ExtractionService.buildSchema(extractionFields)
+    );
+
+    return this.toResult(outcomes, value => {
+      const extracted = ExtractionService.parseResponse(value, extractionFields);
+      if (extracted.error) throw new Error(extracted.error);
+      return extractionFields.map(field => {
+        if (extracted.errors[field.name]) throw new Error(extracted.errors[field.name]);
+        return extracted.values[field.name];
+      });
+    }, extractionFields.length);
+  }
+
+  /**
+   * Sends the non-empty prompts through the cached dispatcher; empty rows stay null.
+   * Requests not in the cache count against the same budgets as sidebar runs. Custom functions
+   * can only read properties, so their spend is recorded in the cache.
+   */
+  private static complete(
+    prompts: (string | null)[],
+    model: string = this.DEFAULT_MODEL,
+    systemInstructions?: string,
+    jsonSchema?: Record<string, unknown>
+  ): (ModelOutcome | null)[] {
+    ProviderService.resolve(model);
+
+    const requests: CompletionRequest[] = [];
+    prompts.forEach(prompt => {
+      if (prompt !== null) requests.push({ model, prompt, systemInstructions, jsonSchema });
+    });
+    const keys = requests.map(request => ResponseCacheService.getKey(request));
+    const cached = ResponseCacheService.getAll(keys);
+    const uncached = requests.filter((_request, index) => cached[keys[index]] === undefined);
+    const characters = uncached.reduce(
+      (total, request) => total + request.prompt.length + (request.systemInstructions || '').length,
+      0
+    );
+    const budgetError = UsageService.checkBudget(0, UsageService.getCost(model, {
+      inputTokens: Math.ceil(characters / this.CHARS_PER_TOKEN),
+      outputTokens: uncached.length * this.ESTIMATED_OUTPUT_TOKENS
+    }));
+    if (budgetError) throw new Error(budgetError);
+
+    const outcomes = PromptService.dispatchWithCache(requests, false);
+    const usage = { inputTokens: 0, outputTokens: 0 };
+    outcomes.forEach(outcome => {
+      usage.inputTokens += outcome.usage?.inputTokens || 0;
+      usage.outputTokens += outcome.usage?.outputTokens || 0;
+    });
+    UsageService.recordFormulaSpend(UsageService.getCost(model, usage));
+
+    let next = 0;
+    return prompts.map(prompt => (prompt === null ? null : outcomes[next++]));
+  }
+
+  /**
+   * Turns outcomes into a custom function result. A single cell throws its error so it shows in
+   * the cell's tooltip; a range marks failed rows so the other rows still return.
+   */
+  private static toResult(
+    outcomes: (ModelOutcome | null)[],
+    format: (value: string) => string[],
+    width: number = 1
+  ): string[][] | string {
+    const rows = outcomes.map(outcome => {
+      if (!outcome) return new Array(width).fill('');
+      try {
+        if (!outcome.success) throw new Error(outcome.error || 'Unknown error');
+        return format((outcome.value || '').trim());
+      } catch (error) {
+        if (outcomes.length === 1) throw error;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return [`${PromptService.ERROR_VALUE}: ${message}`, ...new Array(width - 1).fill('')];
+      }
+    });
+
+    return rows.length === 1 && width === 1 ? rows[0][0] : rows;
+  }
+
+  /**
+   * Normalizes a value or range into rows of trimmed strings
+   */
+  private static toRows(input: FormulaInput): string[][] {
+    const rows = Array.isArray(input) ? input : [[input]];
+    return rows.map(row => (Array.isArray(row) ? row : [row]).map(value => this.toText(value)));
+  }
+
+  /**
+   * Reads a list from a comma-separated string or the cells of a range
+   */
+  private static toList(input: FormulaInput): string[] {
+    return this.toRows(input)
+      .flat()
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+  }
+
+  private static toText(value: unknown): string {
+    if (value instanceof Date) {
+      return Utilities.formatDate(value, Session.getScriptTimeZone(), 'yyyy-MM-dd');
+    }
+    return value === null || value === undefined ? '' : String(value).trim();
+  }
+}
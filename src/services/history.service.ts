@@ -0,0 +1,260 @@
+import 'google-apps-script';
+import { TokenUsage } from './provider.service';
+import { PromptConfig } from './prompt.service';
+import { SpreadsheetService } from './spreadsheet.service';
+
+export interface RunSample {
+  row: number;
+  input: string;
+  output: string;
+}
+
+export interface RunRecord {
+  id: string;
+  user: string;
+  spreadsheetId: string;
+  spreadsheetName: string;
+  source: 'sidebar' | 'job' | 'retry' | 'pipeline' | 'watcher';
+  status: 'completed' | 'failed';
+  // Pipeline runs record the first step's config
+  pipelineId?: string;
+  watcherId?: string;
+  config: PromptConfig;
+  model: string;
+  modelType: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  rowsProcessed: number;
+  rowsFailed: number;
+  rowsSkipped: number;
+  cacheHits?: number;
+  usage: TokenUsage;
+  // USD, from the model's price per token
+  cost?: number;
+  samples: RunSample[];
+  message?: string;
+  undoneAt?: string;
+  // The prompt or system instructions were shortened to fit in storage, so only pipeline runs can be re-run
+  configTruncated?: boolean;
+}
+
+export interface RunFilter {
+  query?: string;
+  model?: string;
+  sheet?: string;
+  status?: 'completed' | 'failed';
+  since?: string;
+  limit?: number;
+}
+
+interface RunSummary {
+  id: string;
+  status: 'completed' | 'failed';
+  source: 'sidebar' | 'job' | 'retry' | 'pipeline' | 'watcher';
+  model: string;
+  input: string;
+  output: string;
+  prompt: string;
+  startedAt: string;
+  durationMs: number;
+  rowsProcessed: number;
+  rowsFailed: number;
+  totalTokens: number;
+  cost: number;
+  undone: boolean;
+  rerunnable: boolean;
+}
+
+export class HistoryService {
+  private static readonly RUN_PREFIX = 'run_';
+  private static readonly RUN_INDEX_KEY = 'runIds';
+  private static readonly MAX_RUNS = 50;
+  private static readonly MAX_RECORD_BYTES = 8000;
+  private static readonly MAX_SAMPLES = 3;
+  private static readonly SAMPLE_LENGTH = 200;
+
+  private static readonly LOG_SHEET_NAME = 'Sun Locke Run Log';
+  private static readonly LOG_SETTING_KEY = 'mirrorRunLog';
+  private static readonly LOG_HEADERS = [
+    'Finished', 'User', 'Run ID', 'Status', 'Model', 'Input', 'Output', 'Prompt',
+    'System instructions', 'Rows processed', 'Rows failed', 'Input tokens', 'Output tokens', 'Duration (s)', 'Cost (USD)'
+  ];
+
+  /**
+   * Stores a finished run for the current user and mirrors it to the log sheet when enabled.
+   * Pass the id the run's undo snapshots were saved under; recording the same id again replaces it.
+   */
+  static recordRun(run: Omit<RunRecord, 'id' | 'user' | 'spreadsheetId' | 'spreadsheetName'> & { id?: string }): RunRecord {
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    const { id, ...fields } = run;
+    const record: RunRecord = {
+      id: id || Utilities.getUuid(),
+      user: this.getCurrentUser(),
+      spreadsheetId: spreadsheet.getId(),
+      spreadsheetName: spreadsheet.getName(),
+      ...fields,
+      samples: run.samples.slice(0, this.MAX_SAMPLES).map(sample => ({
+        row: sample.row,
+        input: this.truncate(sample.input, this.SAMPLE_LENGTH),
+        output: this.truncate(sample.output, this.SAMPLE_LENGTH)
+      }))
+    };
+
+    try {
+      this.saveRecord(record);
+      if (this.isLogSheetEnabled()) {
+        this.appendToLogSheet(record);
+      }
+    } catch (error) {
+      // History is best-effort and must never fail the run itself
+      console.error('Error recording run history:', error);
+    }
+
+    return record;
+  }
+
+  /**
+   * Lists the user's runs, newest first, optionally filtered
+   */
+  static listRuns(filter: RunFilter = {}): RunSummary[] {
+    const query = filter.query?.toLowerCase();
+    const since = filter.since ? new Date(filter.since).getTime() : 0;
+
+    const runs = this.getRunIds()
+      .map(id => this.getRun(id))
+      .filter((run): run is RunRecord => !!run)
+      .filter(run => !filter.model || run.model === filter.model)
+      .filter(run => !filter.status || run.status === filter.status)
+      .filter(run => !filter.sheet || run.config.inputSheet === filter.sheet || run.config.outputSheet === filter.sheet)
+      .filter(run => !since || new Date(run.startedAt).getTime() >= since)
+      .filter(run => !query || [run.config.prompt, run.config.systemInstructions || '', run.model, run.spreadsheetName]
+        .some(text => text.toLowerCase().includes(query)))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+    return runs.slice(0, filter.limit || runs.length).map(run => this.summarize(run));
+  }
+
+  /**
+   * Gets the full record of a single run
+   */
+  static getRun(runId: string): RunRecord | null {
+    const json = PropertiesService.getUserProperties().getProperty(this.RUN_PREFIX + runId);
+    return json ? JSON.parse(json) : null;
+  }
+
+  /**
+   * Flags a run as undone so the sidebar stops offering to undo it
+   */
+  static markUndone(runId: string): void {
+    const record = this.getRun(runId);
+    if (!record) return;
+    record.undoneAt = new Date().toISOString();
+    PropertiesService.getUserProperties().setProperty(this.RUN_PREFIX + runId, JSON.stringify(record));
+  }
+
+  /**
+   * Deletes all of the user's stored runs
+   */
+  static clearHistory(): void {
+    const userProperties = PropertiesService.getUserProperties();
+    this.getRunIds().forEach(id => userProperties.deleteProperty(this.RUN_PREFIX + id));
+    userProperties.deleteProperty(this.RUN_INDEX_KEY);
+  }
+
+  /**
+   * Enables or disables mirroring runs to a hidden log sheet in this spreadsheet
+   */
+  static setLogSheetEnabled(enabled: boolean): void {
+    PropertiesService.getDocumentProperties().setProperty(this.LOG_SETTING_KEY, String(enabled));
+  }
+
+  static isLogSheetEnabled(): boolean {
+    return PropertiesService.getDocumentProperties().getProperty(this.LOG_SETTING_KEY) === 'true';
+  }
+
+  private static saveRecord(record: RunRecord): void {
+    const userProperties = PropertiesService.getUserProperties();
+
+    // Keep each record inside the per-property size limit by trimming the bulky parts
+    let json = JSON.stringify(record);
+    if (json.length > this.MAX_RECORD_BYTES) {
+      const { prompt, systemInstructions = '' } = record.config;
+      record.samples = [];
+      record.config = {
+        ...record.config,
+        // Range runs can re-resolve their rows from inputRange
+        rows: record.config.inputRange ? undefined : record.config.rows,
+        prompt: this.truncate(prompt, 2000),
+        systemInstructions: this.truncate(systemInstructions, 1000)
+      };
+      record.configTruncated = prompt.length > 2000 || systemInstructions.length > 1000 || undefined;
+      json = JSON.stringify(record);
+    }
+    userProperties.setProperty(this.RUN_PREFIX + record.id, json);
+
+    const ids = this.getRunIds().filter(id => id !== record.id);
+    ids.push(record.id);
+    while (ids.length > this.MAX_RUNS) {
+      userProperties.deleteProperty(this.RUN_PREFIX + ids.shift());
+    }
+    userProperties.setProperty(this.RUN_INDEX_KEY, JSON.stringify(ids));
+  }
+
+  private static getRunIds(): string[] {
+    const json = PropertiesService.getUserProperties().getProperty(this.RUN_INDEX_KEY);
+    return json ? JSON.parse(json) : [];
+  }
+
+  private static appendToLogSheet(record: RunRecord): void {
+    const sheet = SpreadsheetService.getOrCreateHiddenSheet(this.LOG_SHEET_NAME, this.LOG_HEADERS);
+    const { config } = record;
+    sheet.appendRow([
+      new Date(record.finishedAt),
+      record.user,
+      record.id,
+      record.status,
+      record.model,
+      `${config.inputSheet}!${config.inputColumn}`,
+      `${config.outputSheet}!${config.outputColumn}`,
+      config.prompt,
+      config.systemInstructions || '',
+      record.rowsProcessed,
+      record.rowsFailed,
+      record.usage.inputTokens,
+      record.usage.outputTokens,
+      Math.round(record.durationMs / 1000),
+      record.cost || 0
+    ]);
+  }
+
+  private static summarize(run: RunRecord): RunSummary {
+    return {
+      id: run.id,
+      status: run.status,
+      source: run.source,
+      model: run.model,
+      input: `${run.config.inputSheet}!${run.config.inputColumn}`,
+      output: `${run.config.outputSheet}!${run.config.outputColumn}`,
+      prompt: this.truncate(run.config.prompt, 120),
+      startedAt: run.startedAt,
+      durationMs: run.durationMs,
+      rowsProcessed: run.rowsProcessed,
+      rowsFailed: run.rowsFailed,
+      totalTokens: run.usage.inputTokens + run.usage.outputTokens,
+      cost: run.cost || 0,
+      undone: !!run.undoneAt,
+      // Pipelines re-run from their saved steps, not from the recorded config
+      rerunnable: !run.configTruncated || !!run.pipelineId
+    };
+  }
+
+  private static getCurrentUser(): string {
+    // Consumer accounts may not expose the active user's email to add-ons
+    return Session.getActiveUser().getEmail() || Session.getTemporaryActiveUserKey();
+  }
+
+  private static truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+  }
+}
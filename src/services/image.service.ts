@@ -0,0 +1,235 @@
+import 'google-apps-script';
+import { ProviderService } from './provider.service';
+import { SettingsService } from './settings.service';
+import { BflImageProvider } from './providers/bfl.provider';
+import { TogetherImageProvider } from './providers/together.provider';
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  width: number;
+  height: number;
+  aspectRatio: string;
+}
+
+/**
+ * An image provider generates a single image for a prompt and returns it as a blob
+ */
+export interface ImageProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly keyProperty: string;
+  supportsModel(model: string): boolean;
+  generate(request: ImageRequest, apiKey: string): GoogleAppsScript.Base.Blob;
+  // Generates several images side by side; failures are returned in place of their blob
+  generateAll?(requests: ImageRequest[], apiKey: string): Array<GoogleAppsScript.Base.Blob | Error>;
+  buildTestRequest?(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest;
+}
+
+export interface ImageOptions {
+  size?: number;
+  aspectRatio?: string;
+  outputMode?: 'formula' | 'link';
+  folderId?: string;
+  // =IMAGE() can only load files anyone with the link can view, so the user has to opt in
+  shareByLink?: boolean;
+}
+
+export interface ImageOutcome {
+  success: boolean;
+  value?: string;
+  error?: string;
+}
+
+interface ImageSettings {
+  size: number;
+  aspectRatio: string;
+  outputMode: 'formula' | 'link';
+  folderId: string;
+  shareByLink: boolean;
+}
+
+export class ImageService {
+  private static readonly DEFAULT_FOLDER_NAME = 'Sun Locke Images';
+  private static readonly SHARE_REQUIRED_ERROR =
+    '=IMAGE() can only show images shared by link. Turn on sharing images by link, or write images as Drive links.';
+  private static readonly ASPECT_RATIOS = ['1:1', '4:3', '3:4', '16:9', '9:16', '3:2', '2:3', '21:9', '9:21'];
+
+  private static providers: ImageProvider[] | null = null;
+
+  /**
+   * Gets the registered image providers, creating the built-in ones on first use
+   */
+  static getProviders(): ImageProvider[] {
+    if (!this.providers) {
+      this.providers = [new TogetherImageProvider(), new BflImageProvider()];
+    }
+    return this.providers;
+  }
+
+  /**
+   * Gets the user's image settings, falling back to defaults
+   */
+  static getSettings(): ImageSettings {
+    const userProperties = PropertiesService.getUserProperties();
+    return {
+      size: parseInt(userProperties.getProperty('imageSize') || '1024'),
+      aspectRatio: userProperties.getProperty('imageAspectRatio') || '1:1',
+      outputMode: userProperties.getProperty('imageOutputMode') === 'formula' ? 'formula' : 'link',
+      folderId: userProperties.getProperty('imageFolderId') || '',
+      shareByLink: userProperties.getProperty('imageShareByLink') === 'true'
+    };
+  }
+
+  /**
+   * Saves the user's image settings
+   */
+  static saveSettings(settings: ImageOptions): ImageSettings {
+    if (settings.aspectRatio && !this.ASPECT_RATIOS.includes(settings.aspectRatio)) {
+      throw new Error(`Invalid aspect ratio. Must be one of: ${this.ASPECT_RATIOS.join(', ')}`);
+    }
+    const merged = { ...this.getSettings(), ...settings };
+    if (merged.outputMode === 'formula' && !merged.shareByLink) {
+      throw new Error(this.SHARE_REQUIRED_ERROR);
+    }
+
+    const userProperties = PropertiesService.getUserProperties();
+    if (settings.size) userProperties.setProperty('imageSize', String(settings.size));
+    if (settings.aspectRatio) userProperties.setProperty('imageAspectRatio', settings.aspectRatio);
+    if (settings.outputMode) userProperties.setProperty('imageOutputMode', settings.outputMode);
+    if (settings.folderId !== undefined) userProperties.setProperty('imageFolderId', settings.folderId);
+    if (settings.shareByLink !== undefined) userProperties.setProperty('imageShareByLink', String(settings.shareByLink));
+    return this.getSettings();
+  }
+
+  /**
+   * Generates an image for a prompt, saves it to Drive and returns the value for the output cell
+   */
+  static generateCellValue(prompt: string, model: string, options: ImageOptions = {}): string {
+    const [outcome] = this.generateCellValues([prompt], model, options);
+    if (!outcome.success) throw new Error(outcome.error);
+    return outcome.value!;
+  }
+
+  /**
+   * Generates an image per prompt and saves each to Drive. Providers that can generate side by side
+   * get the whole batch at once. Failures are returned per prompt.
+   * Files stay private unless they are written as =IMAGE() and the user chose to share them by link.
+   */
+  static generateCellValues(prompts: string[], model: string, options: ImageOptions = {}): ImageOutcome[] {
+    const settings = { ...this.getSettings(), ...options };
+    const provider = this.getProviders().find(p => p.supportsModel(model));
+    if (!provider) {
+      throw new Error(`No image provider is configured for model "${model}"`);
+    }
+    if (settings.outputMode === 'formula' && !settings.shareByLink) {
+      throw new Error(this.SHARE_REQUIRED_ERROR);
+    }
+
+    const { width, height } = this.getDimensions(settings.size, settings.aspectRatio);
+    const indexes = prompts.map((_prompt, index) => index).filter(index => prompts[index]?.trim());
+    const requests = indexes.map(index => ({ model, prompt: prompts[index].trim(), width, height, aspectRatio: settings.aspectRatio }));
+
+    let blobs: Array<GoogleAppsScript.Base.Blob | Error>;
+    try {
+      const apiKey = ProviderService.getApiKey(provider);
+      blobs = provider.generateAll
+        ? provider.generateAll(requests, apiKey)
+        : requests.map(request => {
+          try {
+            return provider.generate(request, apiKey);
+          } catch (error) {
+            return error instanceof Error ? error : new Error('Unknown error');
+          }
+        });
+    } catch (error) {
+      blobs = requests.map(() => (error instanceof Error ? error : new Error('Unknown error')));
+    }
+
+    const outcomes: ImageOutcome[] = prompts.map(() => ({ success: false, error: 'Prompt cannot be empty' }));
+    blobs.forEach((blob, position) => {
+      const index = indexes[position];
+      if (blob instanceof Error) {
+        const message = SettingsService.redact(blob);
+        console.error(`Error calling ${provider.name} API:`, message);
+        outcomes[index] = { success: false, error: `${provider.name} Error: ${message}` };
+        return;
+      }
+      try {
+        const file = this.saveToDrive(blob, prompts[index], settings.folderId, settings.outputMode === 'formula');
+        outcomes[index] = { success: true, value: this.toCellValue(file, settings.outputMode) };
+      } catch (error) {
+        outcomes[index] = { success: false, error: `Could not save the image to Drive: ${error instanceof Error ? error.message : error}` };
+      }
+    });
+    return outcomes;
+  }
+
+  /**
+   * Calculates pixel dimensions from the long-edge size and an aspect ratio.
+   * FLUX models want multiples of 32 between 256 and 1440.
+   */
+  static getDimensions(size: number, aspectRatio: string): { width: number; height: number } {
+    const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+    const longEdge = Math.min(1440, Math.max(256, size || 1024));
+    const scale = longEdge / Math.max(ratioWidth || 1, ratioHeight || 1);
+    const round = (value: number) => Math.min(1440, Math.max(256, Math.round(value / 32) * 32));
+
+    return {
+      width: round((ratioWidth || 1) * scale),
+      height: round((ratioHeight || 1) * scale)
+    };
+  }
+
+  /**
+   * Saves an image blob to the configured Drive folder (or the add-on's own folder),
+   * sharing it by link only when asked
+   */
+  private static saveToDrive(
+    blob: GoogleAppsScript.Base.Blob,
+    prompt: string,
+    folderId: string,
+    shareByLink: boolean
+  ): GoogleAppsScript.Drive.File {
+    const folder = folderId ? DriveApp.getFolderById(folderId) : this.getDefaultFolder();
+    const timestamp = Utilities.formatDate(new Date(), Session.getScriptTimeZone(), 'yyyyMMdd-HHmmss');
+    const slug = prompt.trim().slice(0, 40).replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '');
+    blob.setName(`${slug || 'image'}-${timestamp}.png`);
+
+    const file = folder.createFile(blob);
+    file.setDescription(prompt);
+
+    if (shareByLink) {
+      try {
+        file.setSharing(DriveApp.Access.ANYONE_WITH_LINK, DriveApp.Permission.VIEW);
+      } catch (error) {
+        console.warn('Could not share image file by link:', error);
+      }
+    }
+
+    return file;
+  }
+
+  private static getDefaultFolder(): GoogleAppsScript.Drive.Folder {
+    const userProperties = PropertiesService.getUserProperties();
+    const storedId = userProperties.getProperty('imageDefaultFolderId');
+    if (storedId) {
+      try {
+        return DriveApp.getFolderById(storedId);
+      } catch (error) {
+        console.warn('Stored image folder is no longer accessible, creating a new one');
+      }
+    }
+
+    const folder = DriveApp.createFolder(this.DEFAULT_FOLDER_NAME);
+    userProperties.setProperty('imageDefaultFolderId', folder.getId());
+    return folder;
+  }
+
+  private static toCellValue(file: GoogleAppsScript.Drive.File, outputMode: 'formula' | 'link'): string {
+    if (outputMode === 'link') {
+      return file.getUrl();
+    }
+    return `=IMAGE("https://lh3.googleusercontent.com/d/${file.getId()}")`;
+  }
+}
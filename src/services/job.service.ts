@@ -0,0 +1,455 @@
+import 'google-apps-script';
+import { HistoryService, RunSample } from './history.service';
+import { PromptConfig, PromptService } from './prompt.service';
+import { TokenUsage } from './provider.service';
+import { SpreadsheetService } from './spreadsheet.service';
+import { WatcherService } from './watcher.service';
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  config: PromptConfig;
+  spreadsheetId: string;
+  // Set for jobs a watcher queued for new or edited rows
+  watcherId?: string;
+  // Explicit rows from a range source, as a compact row list; otherwise every row from cursor to endRow
+  rows?: string;
+  cursor: number;
+  endRow: number;
+  totalRows: number;
+  processedRows: number;
+  failedRows: string;
+  // Rows labelled by a classification with a dropdown, which gets added once the job ends
+  labelledRows?: string;
+  skippedRows: number;
+  cacheHits?: number;
+  usage: TokenUsage;
+  cost?: number;
+  samples: RunSample[];
+  chunkSize: number;
+  createdAt: string;
+  updatedAt: string;
+  message?: string;
+}
+
+interface JobSummary {
+  id: string;
+  status: JobStatus;
+  totalRows: number;
+  processedRows: number;
+  failedRows: number;
+  skippedRows: number;
+  cost: number;
+  cursor: number;
+  endRow: number;
+  outputSheet: string;
+  outputColumn: string;
+  createdAt: string;
+  updatedAt: string;
+  message?: string;
+}
+
+export class JobService {
+  private static readonly JOB_PREFIX = 'job_';
+  private static readonly JOB_INDEX_KEY = 'jobIds';
+  private static readonly TRIGGER_FUNCTION = 'runPendingJobs';
+  private static readonly DEFAULT_CHUNK_SIZE = 50;
+  private static readonly MAX_STORED_JOBS = 20;
+
+  // Leave headroom below the 6 minute execution limit for the last chunk and bookkeeping
+  private static readonly TIME_BUDGET_MS = 4.5 * 60 * 1000;
+
+  /**
+   * Creates a job for a prompt run. Add-ons can't schedule triggers less than an hour apart, so
+   * the sidebar works through the job while it's open (see runPendingJobs); an hourly trigger
+   * continues it otherwise.
+   */
+  static startJob(config: PromptConfig, chunkSize: number = this.DEFAULT_CHUNK_SIZE, watcherId?: string): JobSummary {
+    // Validate up front so bad configs fail in the sidebar rather than in a trigger
+    if (config.aggregate) throw new Error('A column summary can\'t run in the background; it reads all rows in one run');
+    const plan = PromptService.createPlan(config);
+
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = spreadsheet.getSheetByName(config.inputSheet);
+    if (!sheet) throw new Error(`Sheet ${config.inputSheet} not found`);
+
+    // Range sources come with their rows; keep them compact so the job fits in one property
+    const { rows, ...jobConfig } = plan.config;
+    const lastRow = sheet.getLastRow();
+    const startRow = rows?.length ? rows[0] : config.startRow;
+    const endRow = rows?.length
+      ? rows[rows.length - 1]
+      : plan.rowCount === 'all' ? lastRow : Math.min(lastRow, config.startRow + plan.rowCount - 1);
+
+    if (endRow < startRow) {
+      throw new Error('No input data found in the specified range');
+    }
+
+    const now = new Date().toISOString();
+    const job: Job = {
+      id: Utilities.getUuid(),
+      status: 'queued',
+      config: jobConfig,
+      spreadsheetId: spreadsheet.getId(),
+      watcherId,
+      rows: rows?.length ? SpreadsheetService.formatRowList(rows) : undefined,
+      cursor: startRow,
+      endRow,
+      totalRows: rows?.length || endRow - startRow + 1,
+      processedRows: 0,
+      failedRows: '',
+      skippedRows: 0,
+      usage: { inputTokens: 0, outputTokens: 0 },
+      samples: [],
+      chunkSize: Math.max(1, chunkSize),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.saveJob(job);
+    this.ensureTrigger();
+    return this.summarize(job);
+  }
+
+  /**
+   * Queues rows of the active spreadsheet for a watcher. They join the watcher's job that hasn't
+   * started yet, so a burst of edits becomes one job rather than one per edit.
+   */
+  static queueWatcherRows(config: PromptConfig, rows: number[], watcherId: string): JobSummary {
+    // The queue holds the user lock while it runs jobs; if it's busy, start a separate job
+    const lock = LockService.getUserLock();
+    if (!lock.tryLock(0)) {
+      return this.startWatcherJob(config, rows, watcherId);
+    }
+    try {
+      return this.addWatcherRows(config, rows, watcherId, SpreadsheetApp.getActiveSpreadsheet().getId());
+    } finally {
+      lock.releaseLock();
+    }
+  }
+
+  /**
+   * Adds rows to the watcher's job that hasn't started yet, or starts one. The caller holds the
+   * user lock, and the spreadsheet is the active one.
+   */
+  static addWatcherRows(config: PromptConfig, rows: number[], watcherId: string, spreadsheetId: string): JobSummary {
+    const waiting = this.getJobIds()
+      .map(id => this.getJob(id))
+      .find((job): job is Job => !!job && !!job.rows && job.status === 'queued' &&
+        job.watcherId === watcherId && job.spreadsheetId === spreadsheetId &&
+        job.cursor === SpreadsheetService.parseRowList(job.rows)[0]);
+    if (!waiting) {
+      return this.startWatcherJob(config, rows, watcherId);
+    }
+
+    const merged = Array.from(new Set(SpreadsheetService.parseRowList(waiting.rows || '').concat(rows)))
+      .sort((a, b) => a - b);
+    waiting.rows = SpreadsheetService.formatRowList(merged);
+    waiting.cursor = merged[0];
+    waiting.endRow = merged[merged.length - 1];
+    waiting.totalRows = merged.length;
+    waiting.config.rowCount = merged.length;
+    this.saveJob(waiting);
+    return this.summarize(waiting);
+  }
+
+  /**
+   * Gets a job's progress for the sidebar to poll
+   */
+  static getJobStatus(jobId: string): JobSummary | null {
+    const job = this.getJob(jobId);
+    return job ? this.summarize(job) : null;
+  }
+
+  /**
+   * Lists the user's jobs, newest first
+   */
+  static listJobs(): JobSummary[] {
+    return this.getJobIds()
+      .map(id => this.getJob(id))
+      .filter((job): job is Job => !!job)
+      .map(job => this.summarize(job))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  /**
+   * Pauses a job. The current chunk finishes and is written before the job stops.
+   */
+  static pauseJob(jobId: string): JobSummary {
+    return this.updateStatus(jobId, ['queued', 'running'], 'paused');
+  }
+
+  /**
+   * Resumes a paused or failed job from its cursor
+   */
+  static resumeJob(jobId: string): JobSummary {
+    const summary = this.updateStatus(jobId, ['paused', 'failed'], 'queued');
+    this.ensureTrigger();
+    return summary;
+  }
+
+  /**
+   * Cancels a job. Rows already written stay in the sheet.
+   */
+  static cancelJob(jobId: string): JobSummary {
+    return this.updateStatus(jobId, ['queued', 'running', 'paused', 'failed'], 'cancelled');
+  }
+
+  /**
+   * Works through queued jobs until the time budget runs out, after queueing new rows for time
+   * watchers. Called by the hourly trigger, and by the sidebar again and again while it's open.
+   * Returns whether any job is still waiting. The trigger is removed once there are no jobs left
+   * and no time watchers to check.
+   */
+  static async runPendingJobs(): Promise<boolean> {
+    const startedAt = Date.now();
+
+    const lock = LockService.getUserLock();
+    if (!lock.tryLock(1000)) {
+      // Another execution is already working on the queue
+      return true;
+    }
+
+    try {
+      try {
+        WatcherService.checkTimedWatchers();
+      } catch (error) {
+        // Queued jobs should still run when a watcher check fails
+        console.error('Error checking time watchers:', error);
+      }
+
+      for (const jobId of this.getJobIds()) {
+        const job = this.getJob(jobId);
+        if (!job || (job.status !== 'queued' && job.status !== 'running')) continue;
+
+        const finished = await this.runJob(job, startedAt);
+        if (!finished) break;
+      }
+    } finally {
+      lock.releaseLock();
+    }
+
+    const pending = this.hasPendingJobs();
+    if (!pending && !WatcherService.hasTimedWatchers()) this.deleteTrigger();
+    return pending;
+  }
+
+  /**
+   * Whether any job is queued or still running
+   */
+  static hasPendingJobs(): boolean {
+    return this.listJobs().some(job => job.status === 'queued' || job.status === 'running');
+  }
+
+  /**
+   * Processes a job chunk by chunk, saving the cursor after every chunk.
+   * Returns false if the time budget ran out before the job finished.
+   */
+  private static async runJob(job: Job, startedAt: number): Promise<boolean> {
+    SpreadsheetApp.setActiveSpreadsheet(SpreadsheetApp.openById(job.spreadsheetId));
+
+    job.status = 'running';
+    this.saveJob(job);
+
+    try {
+      const jobRows = job.rows ? SpreadsheetService.parseRowList(job.rows) : null;
+      const plan = PromptService.createPlan({ ...job.config, rows: jobRows || undefined });
+
+      while (job.cursor <= job.endRow) {
+        if (Date.now() - startedAt > this.TIME_BUDGET_MS) {
+          return false;
+        }
+
+        // Pick up pause/cancel requests made from the sidebar since the last chunk
+        const latest = this.getJob(job.id);
+        if (!latest || latest.status !== 'running') {
+          return true;
+        }
+
+        const rowCount = Math.min(job.chunkSize, job.endRow - job.cursor + 1);
+        const chunkRows = jobRows?.filter(row => row >= job.cursor).slice(0, job.chunkSize);
+        const chunk = chunkRows
+          ? await PromptService.processRows(plan, chunkRows, job.id, job.cost || 0)
+          : await PromptService.processChunk(plan, job.cursor, rowCount, job.id, job.cost || 0);
+
+        // Stop before the chunk that would go over budget; it can be resumed once the budget is raised
+        if (chunk.budgetExceeded) {
+          job.status = 'paused';
+          job.message = `${chunk.budgetExceeded}. Raise the budget and resume to continue.`;
+          this.saveJob(job);
+          return true;
+        }
+
+        job.cursor = chunkRows
+          ? (chunkRows.length ? chunkRows[chunkRows.length - 1] + 1 : job.endRow + 1)
+          : job.cursor + rowCount;
+        job.processedRows += chunk.processed;
+        job.skippedRows += chunk.skippedRows.length;
+        job.cacheHits = (job.cacheHits || 0) + chunk.cacheHits;
+        job.usage.inputTokens += chunk.usage.inputTokens;
+        job.usage.outputTokens += chunk.usage.outputTokens;
+        job.cost = (job.cost || 0) + chunk.cost;
+        // Samples are kept short so the job stays within the property size limit
+        job.samples = job.samples.concat(chunk.samples).slice(0, 3).map(sample => ({
+          row: sample.row,
+          input: sample.input.slice(0, 200),
+          output: sample.output.slice(0, 200)
+        }));
+        if (chunk.failedRows.length) {
+          const failed = SpreadsheetService.parseRowList(job.failedRows).concat(chunk.failedRows);
+          job.failedRows = SpreadsheetService.formatRowList(failed);
+        }
+        if (plan.config.classification?.addDropdown && chunk.succeededRows.length) {
+          const labelled = SpreadsheetService.parseRowList(job.labelledRows || '').concat(chunk.succeededRows);
+          job.labelledRows = SpreadsheetService.formatRowList(labelled);
+        }
+
+        // Keep a pause/cancel that arrived while this chunk was running
+        const current = this.getJob(job.id);
+        if (current && current.status !== 'running') {
+          job.status = current.status;
+        }
+        this.saveJob(job);
+
+        if (job.status === 'cancelled') {
+          PromptService.applyClassificationDropdown(plan, SpreadsheetService.parseRowList(job.labelledRows || ''));
+        }
+        if (job.status !== 'running') return true;
+        if (!chunk.processed) break;
+      }
+
+      PromptService.applyClassificationDropdown(plan, SpreadsheetService.parseRowList(job.labelledRows || ''));
+      const failedRows = SpreadsheetService.parseRowList(job.failedRows);
+      PromptService.saveLastRun(job.config, failedRows, job.usage, job.cost || 0);
+
+      job.status = 'completed';
+      job.message = `Processed ${job.processedRows} rows: ${failedRows.length} failed, ${job.skippedRows} skipped`;
+      this.saveJob(job);
+      this.recordRun(job);
+    } catch (error) {
+      console.error(`Job ${job.id} failed at row ${job.cursor}:`, error);
+      job.status = 'failed';
+      job.message = error instanceof Error ? error.message : 'Unknown error occurred';
+      this.saveJob(job);
+      this.recordRun(job);
+    }
+
+    return true;
+  }
+
+  private static startWatcherJob(config: PromptConfig, rows: number[], watcherId: string): JobSummary {
+    return this.startJob({ ...config, rows, rowMode: 'fixed', rowCount: rows.length }, undefined, watcherId);
+  }
+
+  private static recordRun(job: Job): void {
+    const finishedAt = new Date();
+    // The job id doubles as the run id, so all chunks undo together
+    HistoryService.recordRun({
+      id: job.id,
+      source: job.watcherId ? 'watcher' : 'job',
+      watcherId: job.watcherId,
+      status: job.status === 'completed' ? 'completed' : 'failed',
+      config: job.config,
+      model: job.config.model,
+      modelType: job.config.modelType,
+      startedAt: job.createdAt,
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - new Date(job.createdAt).getTime(),
+      rowsProcessed: job.processedRows,
+      rowsFailed: SpreadsheetService.parseRowList(job.failedRows).length,
+      rowsSkipped: job.skippedRows,
+      cacheHits: job.cacheHits || 0,
+      usage: job.usage,
+      cost: job.cost || 0,
+      samples: job.samples,
+      message: job.message
+    });
+  }
+
+  private static updateStatus(jobId: string, allowed: JobStatus[], status: JobStatus): JobSummary {
+    const job = this.getJob(jobId);
+    if (!job) throw new Error('Job not found');
+    if (!allowed.includes(job.status)) {
+      throw new Error(`Cannot change a ${job.status} job to ${status}`);
+    }
+
+    job.status = status;
+    job.message = undefined;
+    this.saveJob(job);
+    return this.summarize(job);
+  }
+
+  private static getJob(jobId: string): Job | null {
+    const json = PropertiesService.getUserProperties().getProperty(this.JOB_PREFIX + jobId);
+    return json ? JSON.parse(json) : null;
+  }
+
+  private static saveJob(job: Job): void {
+    const userProperties = PropertiesService.getUserProperties();
+    job.updatedAt = new Date().toISOString();
+    userProperties.setProperty(this.JOB_PREFIX + job.id, JSON.stringify(job));
+
+    const ids = this.getJobIds().filter(id => id !== job.id);
+    ids.push(job.id);
+
+    // Forget the oldest finished jobs once the index grows too long
+    while (ids.length > this.MAX_STORED_JOBS) {
+      const oldest = ids.findIndex(id => {
+        const stored = this.getJob(id);
+        return !stored || ['completed', 'cancelled', 'failed'].includes(stored.status);
+      });
+      if (oldest === -1) break;
+      userProperties.deleteProperty(this.JOB_PREFIX + ids[oldest]);
+      ids.splice(oldest, 1);
+    }
+
+    userProperties.setProperty(this.JOB_INDEX_KEY, JSON.stringify(ids));
+  }
+
+  private static getJobIds(): string[] {
+    const json = PropertiesService.getUserProperties().getProperty(this.JOB_INDEX_KEY);
+    return json ? JSON.parse(json) : [];
+  }
+
+  /**
+   * Add-ons get one time-driven trigger per user and document, running at most hourly.
+   * Jobs and time watchers share it.
+   */
+  static ensureTrigger(): void {
+    const alreadyScheduled = ScriptApp.getProjectTriggers()
+      .some(trigger => trigger.getHandlerFunction() === this.TRIGGER_FUNCTION);
+    if (alreadyScheduled) return;
+
+    ScriptApp.newTrigger(this.TRIGGER_FUNCTION)
+      .timeBased()
+      .everyHours(1)
+      .create();
+  }
+
+  private static deleteTrigger(): void {
+    ScriptApp.getProjectTriggers()
+      .filter(trigger => trigger.getHandlerFunction() === this.TRIGGER_FUNCTION)
+      .forEach(trigger => ScriptApp.deleteTrigger(trigger));
+  }
+
+  private static summarize(job: Job): JobSummary {
+    return {
+      id: job.id,
+      status: job.status,
+      totalRows: job.totalRows,
+      processedRows: job.processedRows,
+      failedRows: SpreadsheetService.parseRowList(job.failedRows).length,
+      skippedRows: job.skippedRows,
+      cost: job.cost || 0,
+      cursor: job.cursor,
+      endRow: job.endRow,
+      outputSheet: job.config.outputSheet,
+      outputColumn: job.config.outputColumn,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      message: job.message
+    };
+  }
+}
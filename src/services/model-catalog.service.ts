@@ -0,0 +1,203 @@
+import 'google-apps-script';
+import { GenerationParams } from './provider.service';
+import { ModelPrice, UsageService } from './usage.service';
+
+export type ModelType = 'language' | 'search' | 'image';
+
+/**
+ * What a model is and what it accepts. Models missing from the catalog (custom endpoints,
+ * dated model IDs without a prefix match) are sent the provider's usual parameters.
+ */
+export interface ModelInfo {
+  id: string;
+  label: string;
+  type: ModelType;
+  provider: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  supportsSystemPrompt: boolean;
+  supportsJson: boolean;
+  // API names of the generation parameters the model accepts; missing ones aren't supported
+  params: ParamNames;
+  // Replaces the usual defaults for settings a run leaves unset
+  defaultParams?: GenerationParams;
+  temperatureRange?: [number, number];
+  maxStopSequences?: number;
+  // USD per million tokens, null when unknown
+  price?: ModelPrice | null;
+}
+
+export type ParamNames = Partial<Record<keyof GenerationParams, string>>;
+
+export class ModelCatalogService {
+  // Parameter names per API, also used by providers for models missing from the catalog
+  static readonly OPENAI_PARAMS: ParamNames = { temperature: 'temperature', maxOutputTokens: 'max_tokens', topP: 'top_p', stop: 'stop', seed: 'seed' };
+  static readonly ANTHROPIC_PARAMS: ParamNames = { temperature: 'temperature', maxOutputTokens: 'max_tokens', topP: 'top_p', stop: 'stop_sequences' };
+  static readonly PERPLEXITY_PARAMS: ParamNames = { temperature: 'temperature', maxOutputTokens: 'max_tokens', topP: 'top_p' };
+
+  // Sent when a run doesn't set its own values
+  private static readonly DEFAULT_PARAMS: GenerationParams = { temperature: 0.7, maxOutputTokens: 1000 };
+
+  // Menu order: the first model of each type is the default
+  private static readonly MODELS: ModelInfo[] = [
+    {
+      id: 'gpt-4o-mini', label: 'GPT-4o mini', type: 'language', provider: 'openai',
+      contextWindow: 128000, maxOutputTokens: 16384, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.OPENAI_PARAMS, temperatureRange: [0, 2], maxStopSequences: 4
+    },
+    {
+      id: 'gpt-4o', label: 'GPT-4o', type: 'language', provider: 'openai',
+      contextWindow: 128000, maxOutputTokens: 16384, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.OPENAI_PARAMS, temperatureRange: [0, 2], maxStopSequences: 4
+    },
+    {
+      id: 'DeepSeek-V3', label: 'DeepSeek v3', type: 'language', provider: 'deepseek',
+      contextWindow: 64000, maxOutputTokens: 8192, supportsSystemPrompt: true, supportsJson: true,
+      params: { temperature: 'temperature', maxOutputTokens: 'max_tokens', topP: 'top_p', stop: 'stop' },
+      temperatureRange: [0, 2], maxStopSequences: 16
+    },
+    {
+      id: 'claude-3-5-sonnet-latest', label: 'Claude 3.5 Sonnet', type: 'language', provider: 'anthropic',
+      contextWindow: 200000, maxOutputTokens: 8192, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.ANTHROPIC_PARAMS, temperatureRange: [0, 1]
+    },
+    {
+      id: 'claude-3-5-haiku-latest', label: 'Claude 3.5 Haiku', type: 'language', provider: 'anthropic',
+      contextWindow: 200000, maxOutputTokens: 8192, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.ANTHROPIC_PARAMS, temperatureRange: [0, 1]
+    },
+    // Reasoning models take no system message, sampling settings or JSON mode. Their hidden
+    // reasoning counts against max_completion_tokens, so it's left unset unless a run sets it.
+    {
+      id: 'o1-mini', label: 'o1 mini', type: 'language', provider: 'openai',
+      contextWindow: 128000, maxOutputTokens: 65536, supportsSystemPrompt: false, supportsJson: false,
+      params: { maxOutputTokens: 'max_completion_tokens' }, defaultParams: {}
+    },
+    {
+      id: 'o1-preview', label: 'o1 preview', type: 'language', provider: 'openai',
+      contextWindow: 128000, maxOutputTokens: 32768, supportsSystemPrompt: false, supportsJson: false,
+      params: { maxOutputTokens: 'max_completion_tokens' }, defaultParams: {}
+    },
+    {
+      id: 'llama-3.1-sonar-small-128k-online', label: 'Small', type: 'search', provider: 'perplexity',
+      contextWindow: 127072, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.PERPLEXITY_PARAMS, temperatureRange: [0, 2]
+    },
+    {
+      id: 'llama-3.1-sonar-large-128k-online', label: 'Medium', type: 'search', provider: 'perplexity',
+      contextWindow: 127072, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.PERPLEXITY_PARAMS, temperatureRange: [0, 2]
+    },
+    {
+      id: 'llama-3.1-sonar-huge-128k-online', label: 'Large', type: 'search', provider: 'perplexity',
+      contextWindow: 127072, supportsSystemPrompt: true, supportsJson: true,
+      params: ModelCatalogService.PERPLEXITY_PARAMS, temperatureRange: [0, 2]
+    },
+    { id: 'FLUX.1 [schnell]', label: 'FLUX Schnell', type: 'image', provider: 'together', supportsSystemPrompt: false, supportsJson: false, params: {} },
+    { id: 'FLUX.1 [dev]', label: 'FLUX Dev', type: 'image', provider: 'bfl', supportsSystemPrompt: false, supportsJson: false, params: {} },
+    { id: 'FLUX.1 [pro] new', label: 'FLUX Pro', type: 'image', provider: 'bfl', supportsSystemPrompt: false, supportsJson: false, params: {} },
+    { id: 'FLUX1.1 [pro]', label: 'FLUX Pro 1.1', type: 'image', provider: 'bfl', supportsSystemPrompt: false, supportsJson: false, params: {} },
+    { id: 'FLUX1.1 [pro] ultra', label: 'FLUX Pro Ultra', type: 'image', provider: 'bfl', supportsSystemPrompt: false, supportsJson: false, params: {} }
+  ];
+
+  /**
+   * All models with their capabilities and prices, for the sidebar's model menus
+   */
+  static getCatalog(): ModelInfo[] {
+    return this.MODELS.map(model => ({ ...model, price: UsageService.getPrice(model.id) }));
+  }
+
+  static getDefaultModel(type: ModelType): string {
+    return this.MODELS.find(model => model.type === type)!.id;
+  }
+
+  /**
+   * Finds a model by ID. Dated or suffixed IDs (e.g. o1-mini-2024-09-12) match their base model.
+   */
+  static findModel(modelId: string): ModelInfo | null {
+    const id = modelId.replace(/^[a-z]+:/, '');
+    return this.MODELS.find(model => model.id === id) ||
+      this.MODELS.find(model => id.startsWith(`${model.id}-`)) ||
+      null;
+  }
+
+  /**
+   * Checks a run's generation settings against the model and returns them cleaned up.
+   * Throws for settings the model doesn't accept or values out of range.
+   */
+  static validateParams(modelId: string, params?: GenerationParams): GenerationParams | undefined {
+    if (!params) return undefined;
+
+    // The sidebar sends empty fields as empty strings
+    const isSet = (value: unknown) => value !== undefined && value !== null && value !== '';
+    const cleaned: GenerationParams = {};
+    if (isSet(params.temperature)) cleaned.temperature = Number(params.temperature);
+    if (isSet(params.maxOutputTokens)) cleaned.maxOutputTokens = Number(params.maxOutputTokens);
+    if (isSet(params.topP)) cleaned.topP = Number(params.topP);
+    if (isSet(params.seed)) cleaned.seed = Number(params.seed);
+    const stop = (params.stop || []).map(sequence => String(sequence)).filter(sequence => sequence !== '');
+    if (stop.length) cleaned.stop = stop;
+
+    const model = this.findModel(modelId);
+    const name = model?.label || modelId;
+    const unsupported = (Object.keys(cleaned) as (keyof GenerationParams)[]).filter(key => model && !model.params[key]);
+    if (unsupported.length) {
+      const labels: Record<keyof GenerationParams, string> = {
+        temperature: 'temperature', maxOutputTokens: 'max output tokens', topP: 'top_p', stop: 'stop sequences', seed: 'a seed'
+      };
+      throw new Error(`${name} doesn't support ${unsupported.map(key => labels[key]).join(', ')}`);
+    }
+
+    const [minTemperature, maxTemperature] = model?.temperatureRange || [0, 2];
+    if (cleaned.temperature !== undefined && !(cleaned.temperature >= minTemperature && cleaned.temperature <= maxTemperature)) {
+      throw new Error(`Temperature for ${name} must be between ${minTemperature} and ${maxTemperature}`);
+    }
+    if (cleaned.topP !== undefined && !(cleaned.topP > 0 && cleaned.topP <= 1)) {
+      throw new Error('top_p must be greater than 0 and at most 1');
+    }
+    if (cleaned.maxOutputTokens !== undefined) {
+      if (!Number.isInteger(cleaned.maxOutputTokens) || cleaned.maxOutputTokens < 1) {
+        throw new Error('Max output tokens must be a whole number above 0');
+      }
+      if (model?.maxOutputTokens && cleaned.maxOutputTokens > model.maxOutputTokens) {
+        throw new Error(`${name} returns at most ${model.maxOutputTokens} output tokens`);
+      }
+    }
+    if (cleaned.stop && model?.maxStopSequences && cleaned.stop.length > model.maxStopSequences) {
+      throw new Error(`${name} takes at most ${model.maxStopSequences} stop sequences`);
+    }
+    if (cleaned.seed !== undefined && !Number.isInteger(cleaned.seed)) {
+      throw new Error('The seed must be a whole number');
+    }
+
+    return Object.keys(cleaned).length ? cleaned : undefined;
+  }
+
+  /**
+   * Turns generation settings into request fields for the model's API, filling in the defaults.
+   * Models missing from the catalog use the provider's parameter names.
+   */
+  static buildParams(modelId: string, params: GenerationParams | undefined, providerParams: ParamNames): Record<string, unknown> {
+    const model = this.findModel(modelId);
+    const names = model ? model.params : providerParams;
+    const values: GenerationParams = { ...(model?.defaultParams || this.DEFAULT_PARAMS), ...params };
+    if (model?.maxOutputTokens && values.maxOutputTokens) {
+      values.maxOutputTokens = Math.min(values.maxOutputTokens, model.maxOutputTokens);
+    }
+
+    const fields: Record<string, unknown> = {};
+    (Object.keys(values) as (keyof GenerationParams)[]).forEach(key => {
+      const name = names[key];
+      if (name && values[key] !== undefined) fields[name] = values[key];
+    });
+    return fields;
+  }
+
+  static supportsSystemPrompt(modelId: string): boolean {
+    return this.findModel(modelId)?.supportsSystemPrompt !== false;
+  }
+
+  static supportsJson(modelId: string): boolean {
+    return this.findModel(modelId)?.supportsJson !== false;
+  }
+}
@@ -0,0 +1,319 @@
+import 'google-apps-script';
+import { HistoryService } from './history.service';
+import { ClassificationConfig, PromptConfig, PromptService, SearchConfig, TranslationConfig } from './prompt.service';
+import { PostProcessConfig } from './post-process.service';
+import { GenerationParams, TokenUsage } from './provider.service';
+import { SpreadsheetService } from './spreadsheet.service';
+import { TemplateService } from './template.service';
+
+/**
+ * One prompt in a pipeline. The prompt can use {{Step name}} or {{step 2}} for the output of
+ * an earlier step, next to the usual {{Header}} and {{A}} variables. Without variables the
+ * step works on its input column: the previous step's output column unless set.
+ */
+export interface PipelineStep {
+  name: string;
+  modelType?: 'language' | 'search' | 'image';
+  model: string;
+  prompt: string;
+  systemInstructions?: string;
+  inputColumn?: string;
+  outputColumn: string;
+  extractionFields?: string;
+  classification?: ClassificationConfig;
+  translation?: TranslationConfig;
+  search?: SearchConfig;
+  generation?: GenerationParams;
+  postProcess?: PostProcessConfig;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  // Input column of the first step
+  inputColumn: string;
+  steps: PipelineStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Where to run a saved pipeline. Every step reads from and writes to this sheet.
+ */
+export interface PipelineRunOptions {
+  sheet: string;
+  startRow: number;
+  headerRow?: number;
+  rowMode: PromptConfig['rowMode'];
+  rowCount?: number;
+  rows?: number[];
+  overwritePolicy?: PromptConfig['overwritePolicy'];
+  bypassCache?: boolean;
+}
+
+export interface PipelineStepResult {
+  name: string;
+  succeededRows: number;
+  failedRows: number[];
+  skippedRows: number;
+}
+
+export interface PipelineResult {
+  success: boolean;
+  message: string;
+  steps?: PipelineStepResult[];
+  failedRows?: number[];
+  cost?: number;
+  runId?: string;
+}
+
+export class PipelineService {
+  private static readonly PIPELINE_PREFIX = 'pipeline_';
+  private static readonly PIPELINE_INDEX_KEY = 'pipelineIds';
+  private static readonly STEP_REFERENCE_PATTERN = /^step\s*(\d+)$/i;
+  private static readonly CHUNK_SIZE = 50;
+
+  // Leave headroom below the 6 minute execution limit for the last chunk and the history record
+  private static readonly TIME_BUDGET_MS = 4.5 * 60 * 1000;
+
+  /**
+   * Lists the user's saved pipelines, most recently changed first
+   */
+  static listPipelines(): Pipeline[] {
+    return this.getPipelineIds()
+      .map(id => this.getPipeline(id))
+      .filter((pipeline): pipeline is Pipeline => !!pipeline)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  static getPipeline(pipelineId: string): Pipeline | null {
+    const json = PropertiesService.getUserProperties().getProperty(this.PIPELINE_PREFIX + pipelineId);
+    return json ? JSON.parse(json) : null;
+  }
+
+  /**
+   * Saves a new pipeline, or replaces one when it has an id. Pipelines belong to the user,
+   * so the same one can be run on any sheet in any spreadsheet.
+   */
+  static savePipeline(pipeline: Omit<Pipeline, 'id' | 'createdAt' | 'updatedAt'> & { id?: string }): Pipeline {
+    this.validate(pipeline);
+
+    const now = new Date().toISOString();
+    const existing = pipeline.id ? this.getPipeline(pipeline.id) : null;
+    const saved: Pipeline = {
+      id: existing?.id || Utilities.getUuid(),
+      name: pipeline.name.trim(),
+      inputColumn: pipeline.inputColumn.trim().toUpperCase(),
+      steps: pipeline.steps.map(step => ({
+        ...step,
+        name: step.name.trim(),
+        inputColumn: step.inputColumn?.trim().toUpperCase() || undefined,
+        outputColumn: step.outputColumn.trim().toUpperCase()
+      })),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    const userProperties = PropertiesService.getUserProperties();
+    userProperties.setProperty(this.PIPELINE_PREFIX + saved.id, JSON.stringify(saved));
+    const ids = this.getPipelineIds().filter(id => id !== saved.id);
+    ids.push(saved.id);
+    userProperties.setProperty(this.PIPELINE_INDEX_KEY, JSON.stringify(ids));
+    return saved;
+  }
+
+  static deletePipeline(pipelineId: string): boolean {
+    const ids = this.getPipelineIds();
+    if (!ids.includes(pipelineId)) return false;
+
+    const userProperties = PropertiesService.getUserProperties();
+    userProperties.deleteProperty(this.PIPELINE_PREFIX + pipelineId);
+    userProperties.setProperty(this.PIPELINE_INDEX_KEY, JSON.stringify(ids.filter(id => id !== pipelineId)));
+    return true;
+  }
+
+  /**
+   * Runs a saved pipeline over a range of rows, step by step. Each step only gets the rows
+   * that succeeded in the step before, so a failed row skips the rest of the pipeline.
+   * Rows go through every step in chunks, so when time runs out the run stops between chunks
+   * with the finished rows complete. All steps share one run ID and undo together.
+   */
+  static async runPipeline(pipelineId: string, options: PipelineRunOptions): Promise<PipelineResult> {
+    const pipeline = this.getPipeline(pipelineId);
+    if (!pipeline) {
+      return { success: false, message: 'Pipeline not found' };
+    }
+
+    const startedAt = new Date();
+    const runId = Utilities.getUuid();
+    const steps: PipelineStepResult[] = pipeline.steps.map(step => ({
+      name: step.name,
+      succeededRows: 0,
+      failedRows: [],
+      skippedRows: 0
+    }));
+    const failedRows: number[] = [];
+    let stepsRun = 0;
+    let completedRows = 0;
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+    let cost = 0;
+    let firstConfig: PromptConfig | null = null;
+    let message = '';
+    let stopped = false;
+
+    try {
+      // The first step decides which rows take part; later steps overwrite their output
+      const allRows = options.rows?.length
+        ? options.rows
+        : SpreadsheetService.getRowNumbers(options.sheet, options.startRow, options.rowMode === 'all' ? 'all' : Math.max(1, options.rowCount || 1));
+      if (!allRows.length) {
+        return { success: false, message: 'No input data found in the specified range' };
+      }
+
+      for (let offset = 0; offset < allRows.length && !stopped; offset += this.CHUNK_SIZE) {
+        if (Date.now() - startedAt.getTime() > this.TIME_BUDGET_MS) {
+          message = `Stopped after ${offset} of ${allRows.length} rows to stay within the time limit. ` +
+            `Run the pipeline again from row ${allRows[offset]} to continue.`;
+          stopped = true;
+          break;
+        }
+
+        let rows = allRows.slice(offset, offset + this.CHUNK_SIZE);
+        for (let index = 0; index < pipeline.steps.length && rows.length; index++) {
+          const step = pipeline.steps[index];
+          const config = this.buildStepConfig(pipeline, index, options, rows);
+          firstConfig = firstConfig || config;
+
+          const plan = PromptService.createPlan(config);
+          const chunk = await PromptService.processRows(plan, rows, runId, cost);
+          if (chunk.budgetExceeded) {
+            message = `Stopped at step "${step.name}" from row ${rows[0]}: ${chunk.budgetExceeded}`;
+            stopped = true;
+            break;
+          }
+
+          PromptService.applyClassificationDropdown(plan, chunk.succeededRows);
+          cost += chunk.cost;
+          usage.inputTokens += chunk.usage.inputTokens;
+          usage.outputTokens += chunk.usage.outputTokens;
+          failedRows.push(...chunk.failedRows);
+          steps[index].succeededRows += chunk.succeededRows.length;
+          steps[index].failedRows.push(...chunk.failedRows);
+          steps[index].skippedRows += chunk.skippedRows.length;
+          stepsRun = Math.max(stepsRun, index + 1);
+          rows = chunk.succeededRows;
+          if (index === pipeline.steps.length - 1) completedRows += rows.length;
+        }
+      }
+
+      message = message || `Pipeline "${pipeline.name}" finished ${completedRows} rows: ` +
+        steps.map(step => `${step.name} ${step.succeededRows} ok` + (step.failedRows.length ? `, ${step.failedRows.length} failed` : '')).join(' → ');
+    } catch (error) {
+      console.error(`Pipeline ${pipeline.name} failed:`, error);
+      message = error instanceof Error ? error.message : 'Unknown error occurred';
+      stopped = true;
+    }
+
+    if (firstConfig) {
+      const finishedAt = new Date();
+      HistoryService.recordRun({
+        id: runId,
+        source: 'pipeline',
+        pipelineId,
+        status: stepsRun ? 'completed' : 'failed',
+        // Record the whole run's rows rather than the first chunk's, so a rerun covers them all
+        config: { ...firstConfig, rowMode: options.rowMode, rowCount: options.rowCount, rows: options.rows },
+        model: pipeline.steps.map(step => step.model).join(' → '),
+        modelType: firstConfig.modelType,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        rowsProcessed: steps[0].succeededRows + steps[0].failedRows.length,
+        rowsFailed: failedRows.length,
+        rowsSkipped: steps[0].skippedRows,
+        usage,
+        cost,
+        samples: [],
+        message
+      });
+    }
+
+    return {
+      success: stepsRun > 0 && !stopped,
+      message,
+      steps: steps.slice(0, stepsRun),
+      failedRows,
+      cost,
+      runId
+    };
+  }
+
+  /**
+   * Turns a step into a prompt config for the pipeline's sheet, pointing references to
+   * earlier steps at their output columns
+   */
+  private static buildStepConfig(pipeline: Pipeline, index: number, options: PipelineRunOptions, rows: number[]): PromptConfig {
+    const step = pipeline.steps[index];
+    const earlier = pipeline.steps.slice(0, index);
+
+    const references: Record<string, string> = {};
+    TemplateService.extractVariables(step.prompt).forEach(variable => {
+      const number = variable.match(this.STEP_REFERENCE_PATTERN)?.[1];
+      const referenced = number
+        ? earlier[parseInt(number) - 1]
+        : earlier.find(item => item.name.toLowerCase() === variable.trim().toLowerCase());
+      if (referenced) {
+        references[variable] = `{{${referenced.outputColumn}}}`;
+      } else if (number) {
+        throw new Error(`Step "${step.name}" refers to {{${variable}}}, which isn't an earlier step`);
+      }
+    });
+
+    return {
+      modelType: step.modelType || 'language',
+      inputSheet: options.sheet,
+      inputColumn: step.inputColumn || earlier[earlier.length - 1]?.outputColumn || pipeline.inputColumn,
+      outputSheet: options.sheet,
+      outputColumn: step.outputColumn,
+      startRow: options.startRow,
+      headerRow: options.headerRow,
+      rowMode: 'fixed',
+      rowCount: rows.length,
+      rows,
+      prompt: TemplateService.render(step.prompt, references),
+      systemInstructions: step.systemInstructions,
+      model: step.model,
+      bypassCache: options.bypassCache,
+      extractionFields: step.extractionFields,
+      classification: step.classification,
+      translation: step.translation,
+      search: step.search,
+      generation: step.generation,
+      postProcess: step.postProcess,
+      overwritePolicy: index === 0 ? options.overwritePolicy : 'overwrite'
+    };
+  }
+
+  private static validate(pipeline: Pick<Pipeline, 'name' | 'inputColumn' | 'steps'>): void {
+    if (!pipeline.name?.trim()) throw new Error('Give the pipeline a name');
+    if (!/^[A-Za-z]{1,3}$/.test(pipeline.inputColumn?.trim() || '')) throw new Error('Choose the input column of the first step');
+    if (!pipeline.steps?.length) throw new Error('Add at least one step');
+
+    pipeline.steps.forEach((step, index) => {
+      const label = step.name?.trim() || `Step ${index + 1}`;
+      if (!step.name?.trim()) throw new Error(`Give step ${index + 1} a name`);
+      if (!step.model) throw new Error(`Choose a model for ${label}`);
+      if (!step.prompt?.trim() && !step.translation) throw new Error(`Write a prompt for ${label}`);
+      if (!/^[A-Za-z]{1,3}$/.test(step.outputColumn?.trim() || '')) throw new Error(`Choose an output column for ${label}`);
+    });
+
+    const names = pipeline.steps.map(step => step.name.trim().toLowerCase());
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) throw new Error(`Two steps are named ${duplicate}`);
+  }
+
+  private static getPipelineIds(): string[] {
+    const json = PropertiesService.getUserProperties().getProperty(this.PIPELINE_INDEX_KEY);
+    return json ? JSON.parse(json) : [];
+  }
+}
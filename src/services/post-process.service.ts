@@ -0,0 +1,335 @@
+import 'google-apps-script';
+import { CellValue, SpreadsheetService } from './spreadsheet.service';
+
+export type OutputType = 'text' | 'number' | 'date' | 'boolean' | 'list';
+
+/**
+ * How a plain answer is cleaned up and converted before it's written. A list fills
+ * listColumns cells to the right, starting at the output column.
+ */
+export interface PostProcessConfig {
+  // Remove code fences, bold/italic markers, headings and "Sure! Here is…" preambles
+  stripMarkdown?: boolean;
+  // Keep only the first match of this regular expression (its first group, if it has one)
+  pattern?: string;
+  maxLength?: number;
+  type?: OutputType;
+  // Splits list items; newlines, commas and semicolons by default
+  listSeparator?: string;
+  listColumns?: number;
+}
+
+/**
+ * A validated post-processing config with the spreadsheet's locale and time zone
+ */
+export interface PostProcessOptions {
+  stripMarkdown: boolean;
+  pattern?: RegExp;
+  maxLength?: number;
+  type: OutputType;
+  listSeparator?: string;
+  listColumns: number;
+  locale: string;
+  timeZone: string;
+}
+
+export interface PostProcessResult {
+  values: CellValue[];
+  notes: string[];
+  error?: string;
+}
+
+export class PostProcessService {
+  private static readonly TYPES: OutputType[] = ['text', 'number', 'date', 'boolean', 'list'];
+  private static readonly DEFAULT_LIST_COLUMNS = 5;
+  private static readonly MAX_LIST_COLUMNS = 26;
+  private static readonly MAX_CELL_LENGTH = 50000;
+
+  // Languages that write 1.234,5 rather than 1,234.5
+  private static readonly DECIMAL_COMMA_LANGUAGES = [
+    'de', 'fr', 'es', 'it', 'pt', 'nl', 'ru', 'pl', 'tr', 'sv', 'da', 'fi', 'nb', 'no', 'cs', 'sk',
+    'hu', 'ro', 'bg', 'hr', 'sl', 'sr', 'uk', 'el', 'id', 'vi', 'lt', 'lv', 'et', 'ca'
+  ];
+  // Languages that write dates year first; everyone else but en_US writes the day first
+  private static readonly YEAR_FIRST_LANGUAGES = ['ja', 'zh', 'ko', 'hu', 'lt'];
+
+  private static readonly MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+  private static readonly TRUE_WORDS = ['true', 'yes', 'y', '1', 'ja', 'oui', 'sí', 'si', 'sim', 'wahr'];
+  private static readonly FALSE_WORDS = ['false', 'no', 'n', '0', 'nein', 'non', 'não', 'nao', 'falsch'];
+
+  // Opening lines like "Sure! Here is the summary:" and closing offers of more help
+  private static readonly PREAMBLE_PATTERN = /^(?:sure|certainly|of course|absolutely|okay|ok|great|here(?:'s| is| are)|below is|the following)\b[^\n]*:\s*\n/i;
+  private static readonly INTERJECTION_PATTERN = /^(?:sure|certainly|of course|absolutely|okay|ok)[!,.]\s*/i;
+  private static readonly CLOSING_PATTERN = /\n\s*(?:let me know|i hope this helps|hope this helps|feel free to|if you (?:need|have|want))[^\n]*\s*$/i;
+
+  /**
+   * Validates a post-processing config. The sidebar sends empty fields as empty strings.
+   */
+  static resolve(config: PostProcessConfig): PostProcessOptions {
+    const type = config.type || 'text';
+    if (!this.TYPES.includes(type)) {
+      throw new Error(`Unknown output type "${type}". Use ${this.TYPES.join(', ')}.`);
+    }
+
+    let pattern: RegExp | undefined;
+    if (config.pattern?.trim()) {
+      try {
+        pattern = new RegExp(config.pattern.trim());
+      } catch (error) {
+        throw new Error(`The extraction pattern isn't a valid regular expression: ${config.pattern}`);
+      }
+    }
+
+    let maxLength: number | undefined;
+    if (config.maxLength !== undefined && config.maxLength !== null && String(config.maxLength) !== '') {
+      maxLength = Number(config.maxLength);
+      if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > this.MAX_CELL_LENGTH) {
+        throw new Error(`Max length must be a whole number between 1 and ${this.MAX_CELL_LENGTH}`);
+      }
+    }
+
+    let listColumns = this.DEFAULT_LIST_COLUMNS;
+    if (type === 'list' && config.listColumns !== undefined && String(config.listColumns) !== '') {
+      listColumns = Number(config.listColumns);
+      if (!Number.isInteger(listColumns) || listColumns < 1 || listColumns > this.MAX_LIST_COLUMNS) {
+        throw new Error(`A list can fill between 1 and ${this.MAX_LIST_COLUMNS} columns`);
+      }
+    }
+
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    return {
+      stripMarkdown: !!config.stripMarkdown,
+      pattern,
+      maxLength,
+      type,
+      listSeparator: config.listSeparator || undefined,
+      listColumns: type === 'list' ? listColumns : 1,
+      locale: spreadsheet.getSpreadsheetLocale() || 'en_US',
+      timeZone: spreadsheet.getSpreadsheetTimeZone() || Session.getScriptTimeZone()
+    };
+  }
+
+  /**
+   * The output columns a post-processed answer fills, starting at the output column
+   */
+  static getColumns(outputColumn: string, options: PostProcessOptions): string[] {
+    const first = SpreadsheetService.letterToColumn(outputColumn);
+    return Array.from({ length: options.listColumns }, (_, index) => SpreadsheetService.columnToLetter(first + index));
+  }
+
+  /**
+   * Cleans up an answer and converts it to the output type. Answers that can't be converted
+   * come back with an error instead of being written as text.
+   */
+  static apply(text: string, options: PostProcessOptions): PostProcessResult {
+    const failed = (error: string): PostProcessResult => ({ values: [], notes: [], error });
+
+    let value = options.stripMarkdown ? this.stripMarkdown(text) : text;
+    value = value.trim();
+
+    if (options.pattern) {
+      const match = value.match(options.pattern);
+      if (!match) return failed(`No match for ${options.pattern.source} in: ${value.slice(0, 200)}`);
+      value = (match[1] ?? match[0]).trim();
+    }
+
+    if (options.type === 'list') {
+      return this.splitList(value, options);
+    }
+
+    const notes = [''];
+    if (options.maxLength && value.length > options.maxLength) {
+      notes[0] = `Shortened from ${value.length} characters`;
+      value = value.slice(0, options.maxLength - 1).trimEnd() + '…';
+    }
+
+    if (options.type === 'text' || value === '') {
+      return { values: [value], notes };
+    }
+    const converted = this.convert(value, options);
+    if (converted === null) {
+      return failed(`Expected a ${options.type} but got: ${value.slice(0, 200)}`);
+    }
+    return { values: [converted], notes };
+  }
+
+  /**
+   * Shows a cell value as text, e.g. in previews. Dates are formatted in the spreadsheet's time zone.
+   */
+  static toText(value: CellValue, timeZone?: string): string {
+    if (value instanceof Date) {
+      return Utilities.formatDate(value, timeZone || Session.getScriptTimeZone(), 'yyyy-MM-dd');
+    }
+    return String(value);
+  }
+
+  /**
+   * Removes markdown formatting and chatty framing, keeping line breaks and list items
+   */
+  static stripMarkdown(text: string): string {
+    let value = text.trim();
+
+    // A fenced answer keeps only what's inside the fence
+    const fenced = value.match(/^```[\w-]*\s*\n([\s\S]*?)\n?```$/) || value.match(/```[\w-]*\s*\n([\s\S]*?)\n?```/);
+    if (fenced) value = fenced[1];
+
+    value = value
+      .replace(this.PREAMBLE_PATTERN, '')
+      .replace(this.INTERJECTION_PATTERN, '')
+      .replace(this.CLOSING_PATTERN, '');
+
+    return value
+      .replace(/^#{1,6}\s+/gm, '')
+      .replace(/\*\*(.+?)\*\*/g, '$1')
+      .replace(/__(.+?)__/g, '$1')
+      .replace(/(?<![\w*])\*(?!\s)([^*\n]+?)(?<!\s)\*(?![\w*])/g, '$1')
+      .replace(/(?<!\w)_(?!\s)([^_\n]+?)(?<!\s)_(?!\w)/g, '$1')
+      .replace(/`([^`\n]+)`/g, '$1')
+      .replace(/\[([^\]\n]+)\]\((https?:[^)\s]+)\)/g, '$1 ($2)')
+      .trim();
+  }
+
+  /**
+   * Reads the first markdown table in a text into rows of cells; empty when there is none
+   */
+  static parseTable(text: string): string[][] {
+    const rows: string[][] = [];
+    for (const line of text.split('\n')) {
+      const trimmed = line.trim();
+      if (!this.isTableRow(trimmed)) {
+        if (rows.length) break;
+        continue;
+      }
+      // Skip the |---|---| line under the header
+      if (/^\|[\s:|-]+\|$/.test(trimmed)) continue;
+      rows.push(trimmed.slice(1, -1).split('|').map(cell => this.stripMarkdown(cell)));
+    }
+    return rows;
+  }
+
+  /**
+   * Whether a line is a row of a markdown table, including the |---|---| line under the header
+   */
+  static isTableRow(line: string): boolean {
+    return /^\|.*\|$/.test(line.trim());
+  }
+
+  private static splitList(value: string, options: PostProcessOptions): PostProcessResult {
+    const separator = options.listSeparator ?? (value.includes('\n') ? '\n' : /[;,]/);
+    const items = value
+      .split(separator)
+      .map(item => item.trim().replace(/^(?:[-*•]|\d+[.)])\s+/, '').trim())
+      .filter(Boolean)
+      .map(item => options.maxLength && item.length > options.maxLength ? item.slice(0, options.maxLength - 1).trimEnd() + '…' : item);
+
+    if (items.length > options.listColumns) {
+      return { values: [], notes: [], error: `Got ${items.length} items but the list fills ${options.listColumns} columns` };
+    }
+
+    const values: CellValue[] = new Array(options.listColumns).fill('');
+    items.forEach((item, index) => {
+      values[index] = item;
+    });
+    return { values, notes: new Array(options.listColumns).fill('') };
+  }
+
+  private static convert(value: string, options: PostProcessOptions): CellValue | null {
+    switch (options.type) {
+      case 'number':
+        return this.parseNumber(value, options.locale);
+      case 'date':
+        return this.parseDate(value, options.locale, options.timeZone);
+      case 'boolean': {
+        const word = value.toLowerCase().replace(/[.!]+$/, '').trim();
+        if (this.TRUE_WORDS.includes(word)) return true;
+        if (this.FALSE_WORDS.includes(word)) return false;
+        return null;
+      }
+      default:
+        return value;
+    }
+  }
+
+  /**
+   * Reads numbers like "1,250.5", "1.250,5" (in decimal-comma locales), "$40", "3.5 kg" and "12%"
+   */
+  private static parseNumber(value: string, locale: string): number | null {
+    const match = value.match(/^[^\d\s-]{0,3}\s*(-?)\s*([\d.,'\s]*\d)\s*(%?)\s*[^\d\n]{0,15}$/);
+    if (!match) return null;
+
+    const [, sign, body, percent] = match;
+    const digits = body.replace(/['\s]/g, '');
+    const decimalComma = this.DECIMAL_COMMA_LANGUAGES.includes(this.getLanguage(locale));
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+
+    // With both separators the last one is the decimal point; with one, the locale decides
+    // unless it can only be a thousands separator
+    let decimal: string | null;
+    if (lastDot >= 0 && lastComma >= 0) {
+      decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastDot >= 0 || lastComma >= 0) {
+      const separator = lastDot >= 0 ? '.' : ',';
+      const groupsOnly = new RegExp(`^\\d{1,3}(\\${separator}\\d{3})+$`).test(digits);
+      const isLocaleDecimal = separator === (decimalComma ? ',' : '.');
+      decimal = groupsOnly && (!isLocaleDecimal || digits.split(separator).length > 2) ? null : separator;
+    } else {
+      decimal = null;
+    }
+
+    const group = decimal === '.' ? ',' : decimal === ',' ? '.' : /[.,]/g;
+    const integerAndFraction = digits.split(group).join('');
+    const normalized = decimal ? integerAndFraction.replace(decimal, '.') : integerAndFraction;
+    if (!/^\d+(\.\d+)?$/.test(normalized)) return null;
+
+    const number = parseFloat(normalized) * (sign ? -1 : 1);
+    return percent ? number / 100 : number;
+  }
+
+  /**
+   * Reads ISO dates, numeric dates in the locale's order and dates with English month names
+   */
+  private static parseDate(value: string, locale: string, timeZone: string): Date | null {
+    const text = value.replace(/\.$/, '').trim();
+    let year: number;
+    let month: number;
+    let day: number;
+    let match: RegExpMatchArray | null;
+
+    if ((match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ][\d:.]+Z?)?$/))) {
+      [year, month, day] = [match[1], match[2], match[3]].map(Number);
+    } else if ((match = text.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/))) {
+      const parts = [match[1], match[2], match[3]].map(Number);
+      const language = this.getLanguage(locale);
+      if (match[1].length === 4 || this.YEAR_FIRST_LANGUAGES.includes(language)) {
+        [year, month, day] = parts;
+      } else if (locale === 'en_US' || locale === 'en') {
+        [month, day, year] = parts;
+      } else {
+        [day, month, year] = parts;
+      }
+    } else if ((match = text.match(/^(?:[a-z]+,?\s+)?([a-z]{3,})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i))) {
+      [month, day, year] = [this.getMonth(match[1]), Number(match[2]), Number(match[3])];
+    } else if ((match = text.match(/^(?:[a-z]+,?\s+)?(\d{1,2})(?:st|nd|rd|th)?\.?\s+(?:of\s+)?([a-z]{3,})\.?,?\s+(\d{4})$/i))) {
+      [day, month, year] = [Number(match[1]), this.getMonth(match[2]), Number(match[3])];
+    } else {
+      return null;
+    }
+
+    if (year < 100) year += 2000;
+    if (!(month >= 1 && month <= 12) || !(day >= 1 && day <= 31)) return null;
+
+    const iso = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    const date = Utilities.parseDate(iso, timeZone, 'yyyy-MM-dd');
+    // parseDate rolls invalid days over (31 April becomes 1 May)
+    return Utilities.formatDate(date, timeZone, 'yyyy-MM-dd') === iso ? date : null;
+  }
+
+  private static getMonth(name: string): number {
+    return this.MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+  }
+
+  private static getLanguage(locale: string): string {
+    return locale.split(/[_-]/)[0].toLowerCase();
+  }
+}
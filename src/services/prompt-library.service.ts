@@ -0,0 +1,402 @@
+import 'google-apps-script';
+import { PromptConfig } from './prompt.service';
+
+/**
+ * Where a prompt is stored and who can use it:
+ * - personal: only the current user
+ * - document: everyone using this spreadsheet
+ */
+export type PromptScope = 'personal' | 'document';
+
+/**
+ * Output settings a prompt brings along when it's used
+ */
+export type PromptSettings = Partial<Pick<PromptConfig,
+  'modelType' | 'extractionFields' | 'classification' | 'translation' | 'search' | 'generation' | 'postProcess' | 'overwritePolicy'>>;
+
+export interface PromptInput {
+  name: string;
+  category?: string;
+  content: string;
+  systemInstructions?: string;
+  model?: string;
+  settings?: PromptSettings;
+}
+
+export interface PromptVersion {
+  version: number;
+  content: string;
+  systemInstructions?: string;
+  model?: string;
+  settings?: PromptSettings;
+  savedAt: string;
+  savedBy: string;
+}
+
+export interface LibraryPrompt {
+  id: string;
+  scope: PromptScope;
+  name: string;
+  category: string;
+  content: string;
+  systemInstructions?: string;
+  model?: string;
+  settings?: PromptSettings;
+  version: number;
+  // Earlier versions, oldest first
+  versions: PromptVersion[];
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  updatedBy?: string;
+  lastUsed?: string;
+  useCount: number;
+}
+
+export interface PromptFilter {
+  query?: string;
+  category?: string;
+  scope?: PromptScope;
+  sortBy?: 'name' | 'category' | 'newest' | 'oldest' | 'lastUsed' | 'mostUsed';
+}
+
+export interface ImportResult {
+  imported: number;
+  skipped: number;
+}
+
+interface PromptExport {
+  format: 'sunlocke-prompts';
+  exportedAt: string;
+  prompts: LibraryPrompt[];
+}
+
+// Shape of prompts saved before the library existed
+interface LegacyPrompt {
+  name: string;
+  content: string;
+  category?: string;
+  createdAt?: string;
+  lastUsed?: string;
+}
+
+export class PromptLibraryService {
+  private static readonly SCOPES: PromptScope[] = ['personal', 'document'];
+  private static readonly PROMPT_PREFIX = 'prompt_';
+  private static readonly INDEX_KEY = 'promptIds';
+  private static readonly LEGACY_KEY = 'savedPrompts';
+  private static readonly MAX_VERSIONS = 10;
+  private static readonly MAX_RECORD_BYTES = 8000;
+
+  /**
+   * Lists prompts from every scope (or one), filtered and sorted
+   */
+  static list(filter: PromptFilter = {}): LibraryPrompt[] {
+    this.migrateLegacyPrompts();
+    const query = filter.query?.toLowerCase();
+
+    const prompts = (filter.scope ? [filter.scope] : this.SCOPES)
+      .flatMap(scope => this.getIds(scope).map(id => this.get(id, scope)))
+      .filter((prompt): prompt is LibraryPrompt => !!prompt)
+      .filter(prompt => !filter.category || filter.category === 'all' || prompt.category === filter.category)
+      .filter(prompt => !query || [prompt.name, prompt.content, prompt.systemInstructions || '']
+        .some(text => text.toLowerCase().includes(query)));
+
+    return this.sort(prompts, filter.sortBy || 'newest');
+  }
+
+  /**
+   * Gets a single prompt with its version history
+   */
+  static get(id: string, scope: PromptScope): LibraryPrompt | null {
+    const json = this.getStore(scope).getProperty(this.PROMPT_PREFIX + id);
+    return json ? JSON.parse(json) : null;
+  }
+
+  /**
+   * Creates a prompt, or saves a new version of an existing one. The previous content is kept
+   * in the version history.
+   */
+  static save(input: PromptInput, scope: PromptScope, id?: string): LibraryPrompt {
+    if (!input.name?.trim() || !input.content?.trim()) {
+      throw new Error('A prompt needs a name and content');
+    }
+
+    return this.withLock(scope, () => this.upsert(input, scope, id));
+  }
+
+  /**
+   * Restores an earlier version as the newest one, so the rollback itself can be undone
+   */
+  static rollback(id: string, scope: PromptScope, version: number): LibraryPrompt {
+    const prompt = this.get(id, scope);
+    if (!prompt) throw new Error('Prompt not found');
+
+    const target = prompt.versions.find(item => item.version === version);
+    if (!target) throw new Error(`Version ${version} is no longer available`);
+
+    return this.save({
+      name: prompt.name,
+      category: prompt.category,
+      content: target.content,
+      systemInstructions: target.systemInstructions,
+      model: target.model,
+      settings: target.settings
+    }, scope, id);
+  }
+
+  static delete(id: string, scope: PromptScope): boolean {
+    return this.withLock(scope, () => {
+      const store = this.getStore(scope);
+      const ids = this.getIds(scope);
+      if (!ids.includes(id)) return false;
+
+      store.deleteProperty(this.PROMPT_PREFIX + id);
+      store.setProperty(this.INDEX_KEY, JSON.stringify(ids.filter(item => item !== id)));
+      return true;
+    });
+  }
+
+  /**
+   * Counts a use of the prompt and updates when it was last used
+   */
+  static recordUsage(id: string, scope: PromptScope): void {
+    this.withLock(scope, () => {
+      const prompt = this.get(id, scope);
+      if (!prompt) return;
+      prompt.lastUsed = new Date().toISOString();
+      prompt.useCount = (prompt.useCount || 0) + 1;
+      this.write(prompt);
+    });
+  }
+
+  /**
+   * Exports prompts, with their version history, as JSON
+   */
+  static exportPrompts(scope?: PromptScope): string {
+    const data: PromptExport = {
+      format: 'sunlocke-prompts',
+      exportedAt: new Date().toISOString(),
+      prompts: this.list({ scope })
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /**
+   * Imports prompts from an export (or a plain list of prompts) into a scope. Imported prompts
+   * get new IDs and start with no usage; their version history is kept.
+   */
+  static importPrompts(json: string, scope: PromptScope): ImportResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error('The file is not valid JSON');
+    }
+
+    const entries: unknown = Array.isArray(data)
+      ? data
+      : data && typeof data === 'object' && 'prompts' in data ? data.prompts : undefined;
+    if (!Array.isArray(entries)) {
+      throw new Error('No prompts found to import');
+    }
+
+    const result: ImportResult = { imported: 0, skipped: 0 };
+    this.withLock(scope, () => {
+      entries.forEach((entry: Partial<LibraryPrompt> | null) => {
+        if (!entry || typeof entry.name !== 'string' || typeof entry.content !== 'string' ||
+          !entry.name.trim() || !entry.content.trim()) {
+          result.skipped++;
+          return;
+        }
+
+        const prompt = this.upsert({
+          name: entry.name,
+          category: typeof entry.category === 'string' ? entry.category : undefined,
+          content: entry.content,
+          systemInstructions: typeof entry.systemInstructions === 'string' ? entry.systemInstructions : undefined,
+          model: typeof entry.model === 'string' ? entry.model : undefined,
+          settings: entry.settings && typeof entry.settings === 'object' ? entry.settings : undefined
+        }, scope);
+
+        const versions = Array.isArray(entry.versions)
+          ? entry.versions.filter(version => version && typeof version.version === 'number' && typeof version.content === 'string')
+          : [];
+        if (versions.length) {
+          prompt.versions = versions.slice(-this.MAX_VERSIONS);
+          prompt.version = Math.max(Number(entry.version) || 1, ...prompt.versions.map(version => version.version + 1));
+          this.write(prompt);
+        }
+        result.imported++;
+      });
+    });
+    return result;
+  }
+
+  /**
+   * Moves prompts saved under the old single savedPrompts key into the personal scope. Prompts
+   * too long for the library are skipped, so the old key always goes away.
+   */
+  private static migrateLegacyPrompts(): void {
+    const userProperties = PropertiesService.getUserProperties();
+    if (!userProperties.getProperty(this.LEGACY_KEY)) return;
+
+    this.withLock('personal', () => {
+      // Another execution may have migrated them while we waited for the lock
+      const json = userProperties.getProperty(this.LEGACY_KEY);
+      if (!json) return;
+
+      // One at a time, so a migration cut short carries on from where it stopped without duplicates
+      const legacy: LegacyPrompt[] = JSON.parse(json);
+      while (legacy.length) {
+        const item = legacy.shift()!;
+        try {
+          const prompt = this.upsert({ name: item.name, category: item.category, content: item.content }, 'personal');
+          prompt.createdAt = item.createdAt || prompt.createdAt;
+          prompt.lastUsed = item.lastUsed;
+          this.write(prompt);
+        } catch (error) {
+          console.warn(`Skipped saved prompt "${item.name}" while moving it to the library:`, error instanceof Error ? error.message : error);
+        }
+        if (legacy.length) userProperties.setProperty(this.LEGACY_KEY, JSON.stringify(legacy));
+      }
+      userProperties.deleteProperty(this.LEGACY_KEY);
+    });
+  }
+
+  /**
+   * Creates or updates a prompt; callers hold the scope's lock
+   */
+  private static upsert(input: PromptInput, scope: PromptScope, id?: string): LibraryPrompt {
+    const now = new Date().toISOString();
+    const user = this.getCurrentUser();
+    const existing = id ? this.get(id, scope) : null;
+    if (id && !existing) throw new Error('Prompt not found');
+
+    const prompt: LibraryPrompt = existing
+      ? {
+        ...existing,
+        versions: existing.versions.concat(this.toVersion(existing)),
+        version: existing.version + 1
+      }
+      : {
+        id: Utilities.getUuid(),
+        scope,
+        name: '',
+        category: 'custom',
+        content: '',
+        version: 1,
+        versions: [],
+        createdAt: now,
+        createdBy: user,
+        updatedAt: now,
+        useCount: 0
+      };
+
+    Object.assign(prompt, {
+      name: input.name.trim(),
+      category: input.category?.trim() || prompt.category,
+      content: input.content,
+      systemInstructions: input.systemInstructions || undefined,
+      model: input.model || undefined,
+      settings: input.settings,
+      updatedAt: now,
+      updatedBy: user
+    });
+
+    this.write(prompt);
+    return prompt;
+  }
+
+  private static write(prompt: LibraryPrompt): void {
+    const store = this.getStore(prompt.scope);
+
+    // Keep the record inside the per-property size limit by dropping the oldest versions
+    prompt.versions = prompt.versions.slice(-this.MAX_VERSIONS);
+    let json = JSON.stringify(prompt);
+    while (json.length > this.MAX_RECORD_BYTES && prompt.versions.length) {
+      prompt.versions.shift();
+      json = JSON.stringify(prompt);
+    }
+    if (json.length > this.MAX_RECORD_BYTES) {
+      throw new Error('This prompt is too long to save in the library');
+    }
+    store.setProperty(this.PROMPT_PREFIX + prompt.id, json);
+
+    const ids = this.getIds(prompt.scope);
+    if (!ids.includes(prompt.id)) {
+      ids.push(prompt.id);
+      store.setProperty(this.INDEX_KEY, JSON.stringify(ids));
+    }
+  }
+
+  private static toVersion(prompt: LibraryPrompt): PromptVersion {
+    return {
+      version: prompt.version,
+      content: prompt.content,
+      systemInstructions: prompt.systemInstructions,
+      model: prompt.model,
+      settings: prompt.settings,
+      savedAt: prompt.updatedAt,
+      savedBy: prompt.updatedBy || prompt.createdBy
+    };
+  }
+
+  private static sort(prompts: LibraryPrompt[], sortBy: NonNullable<PromptFilter['sortBy']>): LibraryPrompt[] {
+    const time = (value?: string) => (value ? new Date(value).getTime() : 0);
+    return [...prompts].sort((a, b) => {
+      switch (sortBy) {
+        case 'name':
+          return a.name.localeCompare(b.name);
+        case 'category':
+          return a.category.localeCompare(b.category);
+        case 'oldest':
+          return time(a.createdAt) - time(b.createdAt);
+        case 'lastUsed':
+          return time(b.lastUsed) - time(a.lastUsed);
+        case 'mostUsed':
+          return (b.useCount || 0) - (a.useCount || 0);
+        default:
+          return time(b.createdAt) - time(a.createdAt);
+      }
+    });
+  }
+
+  private static getIds(scope: PromptScope): string[] {
+    const json = this.getStore(scope).getProperty(this.INDEX_KEY);
+    return json ? JSON.parse(json) : [];
+  }
+
+  private static getStore(scope: PromptScope): GoogleAppsScript.Properties.Properties {
+    switch (scope) {
+      case 'personal':
+        return PropertiesService.getUserProperties();
+      case 'document': {
+        const properties = PropertiesService.getDocumentProperties();
+        if (!properties) throw new Error('Document prompts are only available inside a spreadsheet');
+        return properties;
+      }
+      default:
+        throw new Error(`Unknown prompt scope: ${scope}`);
+    }
+  }
+
+  /**
+   * A scope can be edited from several sidebars at once, so its writes are serialized
+   */
+  private static withLock<T>(scope: PromptScope, action: () => T): T {
+    const lock = scope === 'personal' ? LockService.getUserLock() : LockService.getDocumentLock();
+    if (!lock || !lock.tryLock(10000)) {
+      throw new Error('The prompt library is busy, please try again');
+    }
+    try {
+      return action();
+    } finally {
+      lock.releaseLock();
+    }
+  }
+
+  private static getCurrentUser(): string {
+    return Session.getActiveUser().getEmail() || Session.getTemporaryActiveUserKey();
+  }
+}
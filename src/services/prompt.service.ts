@@ -1,138 +1,692 @@
-import { SpreadsheetService } from './spreadsheet.service';
+import { AggregateConfig, AggregateService } from './aggregate.service';
+import { ClassificationDetail, ClassificationOptions, ClassificationService } from './classification.service';
+import { DispatchService } from './dispatch.service';
+import { ExtractionField, ExtractionService } from './extraction.service';
+import { HistoryService, RunRecord, RunSample } from './history.service';
+import { FingerprintService } from './fingerprint.service';
+import { ImageOptions, ImageService } from './image.service';
+import { ModelCatalogService } from './model-catalog.service';
+import { PipelineService } from './pipeline.service';
+import { PostProcessConfig, PostProcessOptions, PostProcessService } from './post-process.service';
+import { CompletionRequest, GenerationParams, ProviderService, SearchOptions, TokenUsage } from './provider.service';
+import { CachedResponse, ResponseCacheService } from './response-cache.service';
+import { RowWrite, SpreadsheetService } from './spreadsheet.service';
+import { TemplateService } from './template.service';
+import { GlossaryEntry, TranslationService, TranslationTarget } from './translation.service';
+import { UndoResult, UndoService } from './undo.service';
+import { UsageService } from './usage.service';
 
-interface PromptConfig {
+export interface PromptConfig {
   modelType: 'language' | 'search' | 'image';
   inputSheet: string;
   inputColumn: string;
   outputSheet: string;
   outputColumn: string;
   startRow: number;
+  headerRow?: number;
   rowMode: 'fixed' | 'all' | '3rows';
   rowCount?: number;
   prompt: string;
   systemInstructions?: string;
   model: string;
+  imageOptions?: ImageOptions;
+  rows?: number[];
+  // Instead of inputColumn and a row window: A1 notation ("B2:D40", "Data!B2:B"), a named range or "selection"
+  inputRange?: string;
+  // Results go to this range's sheet and first column, lined up with the input from its first row
+  outputRange?: string;
+  // Skip rows hidden by a filter or by hand
+  visibleRowsOnly?: boolean;
+  bypassCache?: boolean;
+  // Field list for extraction mode, e.g. "brand, weight_kg:number, in_stock:boolean@F"
+  extractionFields?: string;
+  classification?: ClassificationConfig;
+  translation?: TranslationConfig;
+  search?: SearchConfig;
+  // Temperature, max output tokens, top_p, stop sequences and seed, checked against the model catalog
+  generation?: GenerationParams;
+  // Clean-up and type conversion of plain answers before they're written
+  postProcess?: PostProcessConfig;
+  // One answer about all input rows instead of one per row
+  aggregate?: AggregateConfig;
+  overwritePolicy?: OverwritePolicy;
 }
 
-interface PromptResult {
+/**
+ * Which rows a run writes to:
+ * - overwrite: every row in the range, even rows with empty input
+ * - skipEmptyInput: rows with any input (the default)
+ * - fillEmpty: rows with input whose output cells are all empty
+ * - skipUnchanged: rows with input whose prompt, model and settings weren't answered before, or whose output is empty
+ */
+export type OverwritePolicy = 'overwrite' | 'skipEmptyInput' | 'fillEmpty' | 'skipUnchanged';
+
+/**
+ * Translation mode. Target languages are a list like "German, French@F"; the prompt, if any,
+ * is passed along as context. The glossary sheet lists terms to keep or translate a fixed way.
+ */
+export interface TranslationConfig {
+  targetLanguages: string;
+  sourceLanguageColumn?: string;
+  glossarySheet?: string;
+  preserveFormatting?: boolean;
+}
+
+/**
+ * Web search settings. Domains are comma-separated lists. The answer's source URLs go to
+ * sourcesColumn (next to the output column by default) or to a note on the output cell.
+ */
+export interface SearchConfig {
+  recency?: SearchOptions['recency'];
+  includeDomains?: string;
+  excludeDomains?: string;
+  sources?: 'none' | 'column' | 'note';
+  sourcesColumn?: string;
+  // Remove inline citation markers like [1] from the answer
+  stripMarkers?: boolean;
+}
+
+/**
+ * Classification mode. Labels are a typed list ("Positive, Neutral, Negative") or an
+ * A1 range ("Labels!A2:A"); detail goes to detailColumn, next to the output column by default.
+ */
+export interface ClassificationConfig {
+  labels: string;
+  multiLabel?: boolean;
+  detail?: ClassificationDetail;
+  detailColumn?: string;
+  addDropdown?: boolean;
+}
+
+export interface PromptResult {
   success: boolean;
   message?: string;
   results?: string[];
+  succeededRows?: number[];
+  failedRows?: number[];
+  skippedRows?: number[];
+  cacheHits?: number;
+  usage?: TokenUsage;
+  cost?: number;
+  rowUsage?: Record<number, TokenUsage>;
+  runId?: string;
+}
+
+/**
+ * A validated config with its template variables resolved, ready to be run over any window of rows
+ */
+export interface PromptPlan {
+  config: PromptConfig;
+  modelType: 'language' | 'search' | 'image';
+  rowCount: number | 'all';
+  inputColumn: string;
+  columns: string[];
+  variables: string[];
+  variableColumns: Record<string, string>;
+  // All columns of an input range; a plain prompt gets their cells together
+  rangeColumns?: string[];
+  outputColumns: string[];
+  // Output row = input row + offset, when an output range starts at a different row
+  outputRowOffset: number;
+  extractionFields?: ExtractionField[];
+  classification?: ClassificationOptions;
+  translation?: {
+    targets: TranslationTarget[];
+    sourceLanguageColumn?: string;
+    glossary: GlossaryEntry[];
+    preserveFormatting: boolean;
+  };
+  generation?: GenerationParams;
+  postProcess?: PostProcessOptions;
+  search?: {
+    options: SearchOptions;
+    sources: 'none' | 'column' | 'note';
+    sourcesColumn?: string;
+    stripMarkers: boolean;
+  };
+}
+
+export interface ChunkResult {
+  processed: number;
+  results: string[];
+  succeededRows: number[];
+  failedRows: number[];
+  skippedRows: number[];
+  cacheHits: number;
+  usage: TokenUsage;
+  // Cost in USD of this chunk's requests, and the tokens spent on each row
+  cost: number;
+  rowUsage: Record<number, TokenUsage>;
+  samples: RunSample[];
+  // Set, with nothing processed, when the chunk's estimated cost would exceed a budget
+  budgetExceeded?: string;
+}
+
+export interface ModelOutcome {
+  success: boolean;
+  value?: string;
+  error?: string;
+  usage?: TokenUsage;
+  cached?: boolean;
+  citations?: string[];
+  // Translation mode: one outcome per target language, plus the detected source language
+  parts?: ModelOutcome[];
+  sourceLanguage?: string;
+}
+
+export interface PreviewRow {
+  row: number;
+  prompt: string;
+  columns: string[];
+  values: string[];
+  error?: string;
+}
+
+export interface PreviewResult {
+  success: boolean;
+  message?: string;
+  rows?: PreviewRow[];
+  skippedRows?: number[];
+}
+
+export interface EstimateResult {
+  success: boolean;
+  message?: string;
+  rows?: number;
+  requests?: number;
+  usage?: TokenUsage;
+  cost?: number;
+  // False when the model has no known price, so the cost can't be estimated
+  priced?: boolean;
+  budgetWarning?: string;
+}
+
+interface PendingRow {
+  row: number;
+  prompt: string;
+  fingerprint: string;
+}
+
+interface LastRun {
+  config: PromptConfig;
+  failedRows: string;
+  finishedAt: string;
+  usage?: TokenUsage;
+  cost?: number;
 }
 
 export class PromptService {
+  static readonly ERROR_VALUE = '#AI_ERROR';
+  static readonly ERROR_NOTE_PREFIX = 'Sun Locke error: ';
+
+  private static readonly LAST_RUN_KEY = 'lastRun';
+
+  // Rough sizes for estimates: tokens per character of text, and answer length per request
+  private static readonly CHARS_PER_TOKEN = 4;
+  private static readonly ESTIMATED_OUTPUT_TOKENS = 300;
+
   /**
    * Processes a custom prompt for a range of spreadsheet cells
    */
-  static async processCustomPrompt(config: PromptConfig): Promise<PromptResult> {
+  static async processCustomPrompt(config: PromptConfig, source: RunRecord['source'] = 'sidebar'): Promise<PromptResult> {
+    if (config.aggregate) return AggregateService.run(config, source);
+
+    const startedAt = new Date();
+    // Generated up front so the undo snapshots and the history record share it
+    const runId = Utilities.getUuid();
+    let plan: PromptPlan | null = null;
+
     try {
-      // Determine if this should be a web search based on prompt content
-      const shouldUseSearch = config.prompt.toLowerCase().includes('search the web');
-      const effectiveModelType = shouldUseSearch ? 'search' : config.modelType;
-      
-      // If using search, ensure a valid search model is selected
-      if (shouldUseSearch && !config.model.includes('llama-3.1-sonar')) {
-        // Default to small model if no valid search model is selected
-        config.model = 'llama-3.1-sonar-small-128k-online';
+      plan = this.createPlan(config);
+      const rows = config.rows?.length
+        ? config.rows
+        : SpreadsheetService.getRowNumbers(config.inputSheet, config.startRow, plan.rowCount);
+
+      if (!rows.length) {
+        return {
+          success: false,
+          message: 'No input data found in the specified range'
+        };
       }
 
-      // Validate model type
-      if (!['language', 'search', 'image'].includes(effectiveModelType)) {
-        throw new Error('Invalid model type');
+      const chunk = await this.processRows(plan, rows, runId);
+      if (chunk.budgetExceeded) {
+        return {
+          success: false,
+          message: chunk.budgetExceeded
+        };
       }
+      this.applyClassificationDropdown(plan, chunk.succeededRows);
+      this.saveLastRun(config, chunk.failedRows, chunk.usage, chunk.cost);
+      const record = this.recordRun(runId, plan, source, startedAt, chunk);
 
-      // Validate start row
-      if (!config.startRow || config.startRow < 1) {
-        throw new Error('Invalid start row');
+      const { succeededRows, failedRows, skippedRows, cacheHits, usage, cost, rowUsage } = chunk;
+      return {
+        success: succeededRows.length > 0 || failedRows.length === 0,
+        message: `Processed ${chunk.processed} rows starting from row ${rows[0]}: ` +
+          `${succeededRows.length} succeeded, ${failedRows.length} failed, ${skippedRows.length} skipped` +
+          (cacheHits ? ` (${cacheHits} from cache)` : ''),
+        results: chunk.results,
+        succeededRows,
+        failedRows,
+        skippedRows,
+        cacheHits,
+        usage,
+        cost,
+        rowUsage,
+        runId: record.id
+      };
+    } catch (error) {
+      console.error('Error processing custom prompt:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error occurred';
+      if (plan) {
+        this.recordRun(runId, plan, source, startedAt, null, message);
       }
+      return {
+        success: false,
+        message
+      };
+    }
+  }
 
-      console.log('Processing prompt with config:', {
-        startRow: config.startRow,
-        rowCount: config.rowCount,
-        rowMode: config.rowMode,
-        modelType: effectiveModelType,
-        model: config.model,
-        isWebSearch: shouldUseSearch
-      });
+  /**
+   * Re-runs a run from history with the same settings
+   */
+  static async rerun(runId: string): Promise<PromptResult> {
+    const run = HistoryService.getRun(runId);
+    if (!run) {
+      return {
+        success: false,
+        message: 'Run not found in history'
+      };
+    }
+    if (run.pipelineId) {
+      const { inputSheet, startRow, headerRow, rowMode, rowCount, rows, overwritePolicy } = run.config;
+      return PipelineService.runPipeline(run.pipelineId, { sheet: inputSheet, startRow, headerRow, rowMode, rowCount, rows, overwritePolicy });
+    }
+    if (run.configTruncated) {
+      return {
+        success: false,
+        message: 'This run\'s prompt was too long to keep in full, so it can\'t be re-run'
+      };
+    }
+    return this.processCustomPrompt(run.config);
+  }
 
-      // Determine effective row count based on mode
-      let effectiveRowCount: number | 'all';
-      if (config.rowMode === 'all') {
-        effectiveRowCount = 'all';
-      } else if (config.rowMode === '3rows') {
-        effectiveRowCount = 3;
-      } else {
-        // Fixed mode - use rowCount or default to 1
-        effectiveRowCount = Math.max(1, config.rowCount || 1);
+  /**
+   * Validates a config and resolves everything that doesn't depend on the rows being processed.
+   * Throws if the config is invalid or the prompt uses unknown template variables.
+   */
+  static createPlan(config: PromptConfig): PromptPlan {
+    // Determine if this should be a web search based on prompt content
+    const shouldUseSearch = config.prompt.toLowerCase().includes('search the web');
+    const effectiveModelType = shouldUseSearch ? 'search' : config.modelType;
+
+    // If using search, ensure a valid search model is selected
+    if (shouldUseSearch && ProviderService.findProvider(config.model)?.provider.id !== 'perplexity') {
+      // Default to small model if no valid search model is selected
+      config.model = ModelCatalogService.getDefaultModel('search');
+    }
+
+    // Validate model type
+    if (!['language', 'search', 'image'].includes(effectiveModelType)) {
+      throw new Error('Invalid model type');
+    }
+
+    // A range source sets the input sheet, columns and rows. A selection is pinned to its
+    // A1 notation so later chunks and retries don't depend on what's selected by then.
+    let rangeColumns: string[] | undefined;
+    let inputFirstRow = config.startRow;
+    if (config.inputRange?.trim()) {
+      const range = SpreadsheetService.resolveRange(config.inputRange, config.inputSheet);
+      if (!config.rows?.length) {
+        if (!range.rows.length) throw new Error(`No input data found in ${config.inputRange}`);
+        config.rows = range.rows;
       }
+      config.inputRange = range.notation;
+      config.inputSheet = range.sheet;
+      config.inputColumn = range.columns[0];
+      rangeColumns = range.columns.length > 1 ? range.columns : undefined;
+      inputFirstRow = range.firstRow;
+    }
 
-      console.log('Effective row count:', effectiveRowCount);
+    let outputRowOffset = 0;
+    if (config.outputRange?.trim()) {
+      const range = SpreadsheetService.resolveRange(config.outputRange, config.outputSheet);
+      config.outputSheet = range.sheet;
+      config.outputColumn = range.columns[0];
+      outputRowOffset = range.firstRow - inputFirstRow;
+    }
 
-      // Get input data from spreadsheet using the fixed start row
-      const inputData = SpreadsheetService.getDataFromRange({
-        sheet: config.inputSheet,
-        column: config.inputColumn,
-        startRow: config.startRow, // Use the fixed start row value
-        rowCount: effectiveRowCount
-      });
+    // Validate start row (explicit row lists don't need one)
+    if (!config.rows?.length && (!config.startRow || config.startRow < 1)) {
+      throw new Error('Invalid start row');
+    }
 
-      console.log('Retrieved input data from row', config.startRow, ':', inputData);
+    console.log('Processing prompt with config:', {
+      startRow: config.startRow,
+      rowCount: config.rowCount,
+      rowMode: config.rowMode,
+      modelType: effectiveModelType,
+      model: config.model,
+      isWebSearch: shouldUseSearch
+    });
 
-      if (!inputData.length) {
-        return {
-          success: false,
-          message: 'No input data found in the specified range'
-        };
+    // Determine effective row count based on mode
+    let effectiveRowCount: number | 'all';
+    if (config.rowMode === 'all') {
+      effectiveRowCount = 'all';
+    } else if (config.rowMode === '3rows') {
+      effectiveRowCount = 3;
+    } else {
+      // Fixed mode - use rowCount or default to 1
+      effectiveRowCount = Math.max(1, config.rowCount || 1);
+    }
+
+    console.log('Effective row count:', effectiveRowCount);
+
+    // Resolve {{Header}} / {{A}} variables to columns before making any API calls
+    const variables = TemplateService.extractVariables(config.prompt);
+    let variableColumns: Record<string, string> = {};
+    if (variables.length) {
+      const headerRow = config.headerRow || SpreadsheetService.getHeaderRow(config.inputSheet);
+      const headers = SpreadsheetService.getColumnHeaders(config.inputSheet, headerRow);
+      const mapping = TemplateService.mapVariablesToColumns(variables, headers);
+
+      if (mapping.unknown.length) {
+        throw new Error(
+          `Unknown template variables: ${mapping.unknown.map(v => `{{${v}}}`).join(', ')}. ` +
+          `Use a column header from row ${headerRow} or a column letter.`
+        );
       }
+      variableColumns = mapping.columns;
+    }
 
-      // Process each input with the AI model - only process the number of rows specified
-      const rowsToProcess = effectiveRowCount === 'all' ? inputData.length : effectiveRowCount;
-      const results = await Promise.all(
-        inputData.slice(0, rowsToProcess).map(async (input, index) => {
-          const currentRow = config.startRow + index;
-          console.log(`Processing row ${currentRow} (${index + 1} of ${rowsToProcess})`);
-          
-          // Combine the user's prompt with the cell content
-          const cellContent = input.trim();
-          const combinedPrompt = `${config.prompt}\n\nContent to process: ${cellContent}`;
-          console.log('Combined prompt for row', currentRow, ':', combinedPrompt);
-
-          // Call AI model with combined prompt
-          const result = await this.callAIModel(
-            combinedPrompt,
-            config.systemInstructions,
-            config.model,
-            effectiveModelType
-          );
-
-          return result;
-        })
-      );
+    // Extraction mode writes one field per column, starting at the output column
+    let extractionFields: ExtractionField[] | undefined;
+    if (config.extractionFields?.trim()) {
+      if (effectiveModelType === 'image') {
+        throw new Error('Extraction is not available for image models');
+      }
+      extractionFields = ExtractionService.parseFields(config.extractionFields, config.outputColumn);
+    }
+
+    // Classification mode writes the label, plus the confidence or rationale in a second column
+    let classification: ClassificationOptions | undefined;
+    const outputColumn = config.outputColumn.toUpperCase();
+    let outputColumns = extractionFields ? extractionFields.map(field => field.column) : [outputColumn];
+    if (config.classification) {
+      if (effectiveModelType === 'image' || extractionFields) {
+        throw new Error('Classification cannot be combined with image models or extraction');
+      }
+      classification = {
+        labels: ClassificationService.resolveLabels(config.classification.labels),
+        multiLabel: !!config.classification.multiLabel,
+        detail: config.classification.detail || 'none'
+      };
+      if (classification.detail !== 'none') {
+        const detailColumn = config.classification.detailColumn?.trim().toUpperCase() ||
+          SpreadsheetService.columnToLetter(SpreadsheetService.letterToColumn(outputColumn) + 1);
+        if (detailColumn === outputColumn) {
+          throw new Error('The confidence/rationale column must differ from the output column');
+        }
+        outputColumns = [outputColumn, detailColumn];
+      }
+    }
+
+    // Translation mode writes one column per target language, plus the detected source language
+    let translation: PromptPlan['translation'];
+    if (config.translation) {
+      if (effectiveModelType === 'image' || extractionFields || classification) {
+        throw new Error('Translation cannot be combined with image models, extraction or classification');
+      }
+      const targets = TranslationService.parseTargets(config.translation.targetLanguages, outputColumn);
+      const sourceLanguageColumn = config.translation.sourceLanguageColumn?.trim().toUpperCase() || undefined;
+      outputColumns = targets.map(target => target.column);
+      if (sourceLanguageColumn) {
+        if (outputColumns.includes(sourceLanguageColumn)) {
+          throw new Error(`Column ${sourceLanguageColumn} is used for both a translation and the source language`);
+        }
+        outputColumns.push(sourceLanguageColumn);
+      }
+      translation = {
+        targets,
+        sourceLanguageColumn,
+        glossary: config.translation.glossarySheet ? TranslationService.readGlossary(config.translation.glossarySheet) : [],
+        preserveFormatting: config.translation.preserveFormatting !== false
+      };
+    }
 
-      console.log('Processed results:', results);
+    // Plain answers can be cleaned up and converted; a list fills several columns
+    let postProcess: PostProcessOptions | undefined;
+    if (config.postProcess) {
+      if (effectiveModelType === 'image' || extractionFields || classification || translation) {
+        throw new Error('Output clean-up only works on plain answers, not with images, extraction, classification or translation');
+      }
+      postProcess = PostProcessService.resolve(config.postProcess);
+      outputColumns = PostProcessService.getColumns(outputColumn, postProcess);
+    }
 
-      // Write results back to spreadsheet using the same fixed start row
-      const writeResult = SpreadsheetService.writeDataToRange(
-        {
-          sheet: config.outputSheet,
-          column: config.outputColumn,
-          startRow: config.startRow, // Use the same fixed start row
-          rowCount: effectiveRowCount
+    // Web search can add a sources column after the other output columns
+    let search: PromptPlan['search'];
+    if (config.search && effectiveModelType === 'search') {
+      const domains = (list?: string) => (list || '').split(/[,\s]+/).map(domain => domain.trim()).filter(Boolean);
+      const sources = config.search.sources || 'none';
+      let sourcesColumn: string | undefined;
+      if (sources === 'column') {
+        sourcesColumn = config.search.sourcesColumn?.trim().toUpperCase() ||
+          SpreadsheetService.columnToLetter(Math.max(...outputColumns.map(column => SpreadsheetService.letterToColumn(column))) + 1);
+        if (outputColumns.includes(sourcesColumn)) {
+          throw new Error(`Column ${sourcesColumn} is used for both the answer and its sources`);
+        }
+        outputColumns.push(sourcesColumn);
+      }
+      search = {
+        options: {
+          recency: config.search.recency || undefined,
+          includeDomains: domains(config.search.includeDomains),
+          excludeDomains: domains(config.search.excludeDomains)
         },
-        results
-      );
+        sources,
+        sourcesColumn,
+        stripMarkers: !!config.search.stripMarkers
+      };
+    }
 
+    const generation = ModelCatalogService.validateParams(config.model, config.generation);
+    const inputColumn = config.inputColumn.toUpperCase();
+
+    return {
+      config,
+      modelType: effectiveModelType,
+      rowCount: effectiveRowCount,
+      inputColumn,
+      columns: Array.from(new Set([inputColumn, ...(rangeColumns || []), ...Object.values(variableColumns)])),
+      variables,
+      variableColumns,
+      rangeColumns,
+      outputColumns,
+      outputRowOffset,
+      extractionFields,
+      classification,
+      translation,
+      generation,
+      postProcess,
+      search
+    };
+  }
+
+  /**
+   * Runs a plan over a window of rows and writes the results to the output column.
+   * Returns how many rows were processed (0 once the input runs out).
+   */
+  static async processChunk(
+    plan: PromptPlan,
+    startRow: number,
+    rowCount: number | 'all',
+    runId?: string,
+    runCost: number = 0
+  ): Promise<ChunkResult> {
+    const rows = SpreadsheetService.getRowNumbers(plan.config.inputSheet, startRow, rowCount);
+    return this.processRows(plan, rows, runId, runCost);
+  }
+
+  /**
+   * Runs a plan over specific rows. Each row succeeds or fails on its own: failed rows get
+   * an error marker with the reason as a cell note, and empty rows are skipped untouched.
+   * With a runId, the cells about to be overwritten are snapshotted so the run can be undone.
+   * Nothing is sent if the estimated cost, on top of runCost already spent, would exceed a budget.
+   */
+  static async processRows(plan: PromptPlan, rows: number[], runId?: string, runCost: number = 0): Promise<ChunkResult> {
+    const { config } = plan;
+    const result: ChunkResult = {
+      processed: 0,
+      results: [],
+      succeededRows: [],
+      failedRows: [],
+      skippedRows: [],
+      cacheHits: 0,
+      usage: { inputTokens: 0, outputTokens: 0 },
+      cost: 0,
+      rowUsage: {},
+      samples: []
+    };
+    if (!rows.length) return result;
+
+    const { pending, skippedRows } = this.prepareRows(plan, rows);
+
+    const estimatedCost = UsageService.getCost(config.model, this.estimateUsage(plan, pending));
+    const budgetError = UsageService.checkBudget(runCost, estimatedCost);
+    if (budgetError) {
+      result.budgetExceeded = `${budgetError} (the next ${pending.length} rows are estimated at $${estimatedCost.toFixed(2)})`;
+      return result;
+    }
+    result.skippedRows = skippedRows;
+
+    // Call AI model for all rows at once so requests can run in parallel
+    const outcomes = await this.callAIModelBatch(pending.map(item => item.prompt), plan);
+
+    const writes: RowWrite[] = pending.map((item, index) => {
+      const outcome = outcomes[index];
+      if (outcome.cached) {
+        result.cacheHits++;
+      }
+      if (outcome.usage) {
+        result.usage.inputTokens += outcome.usage.inputTokens;
+        result.usage.outputTokens += outcome.usage.outputTokens;
+        result.rowUsage[item.row] = outcome.usage;
+      }
+
+      const { write, error } = this.buildRowWrite(plan, item.row + plan.outputRowOffset, outcome);
+      if (!error) {
+        result.succeededRows.push(item.row);
+        if (result.samples.length < 3) {
+          result.samples.push({ row: item.row, input: item.prompt, output: outcome.value || '' });
+        }
+      } else {
+        console.error(`Row ${item.row} failed:`, error);
+        result.failedRows.push(item.row);
+      }
+      return write;
+    });
+
+    result.cost = UsageService.getCost(config.model, result.usage);
+    UsageService.recordSpend(result.cost);
+
+    // Write results back to spreadsheet at the same rows, all output columns of a row at once
+    if (writes.length) {
+      if (runId) {
+        const cells = writes.flatMap(write => plan.outputColumns.map((column, index) => ({
+          row: write.row,
+          column,
+          value: String(write.values[index] ?? '')
+        })));
+        UndoService.snapshot(runId, config.outputSheet, cells);
+      }
+      const writeResult = SpreadsheetService.writeRows(config.outputSheet, plan.outputColumns, writes);
       if (!writeResult.success) {
         throw new Error(writeResult.message);
       }
 
+      // Remember what produced each successful row so unchanged rows can be skipped next time
+      FingerprintService.save(
+        FingerprintService.getTarget(config.outputSheet, plan.outputColumns),
+        pending.filter(item => result.succeededRows.includes(item.row)).map(item => item.fingerprint)
+      );
+    }
+
+    result.processed = rows.length;
+    result.results = writes.map(write => write.values.join('\t'));
+    return result;
+  }
+
+  /**
+   * Adds the label dropdown to the output cells of rows that were labelled, once a run is done.
+   * Does nothing unless the run is a classification that asked for a dropdown.
+   */
+  static applyClassificationDropdown(plan: PromptPlan, rows: number[]): void {
+    if (!plan.classification || !plan.config.classification?.addDropdown) return;
+    ClassificationService.applyDropdown(
+      plan.config.outputSheet,
+      plan.outputColumns[0],
+      rows.map(row => row + plan.outputRowOffset),
+      plan.classification
+    );
+  }
+
+  /**
+   * Runs the model on the first few rows that would be processed and returns the resolved
+   * prompts and outputs without writing anything to the sheet
+   */
+  static async previewPrompt(config: PromptConfig, sampleSize: number = 3): Promise<PreviewResult> {
+    if (config.aggregate) {
+      return { success: false, message: 'Preview isn\'t available for a column summary; it asks about all rows at once' };
+    }
+
+    try {
+      const plan = this.createPlan(config);
+      if (plan.modelType === 'image') {
+        return { success: false, message: 'Preview isn\'t available for images; generating them saves files to Drive' };
+      }
+      const rows = config.rows?.length
+        ? config.rows
+        : SpreadsheetService.getRowNumbers(config.inputSheet, config.startRow, plan.rowCount);
+
+      const { pending, skippedRows } = this.prepareRows(plan, rows);
+      const sample = pending.slice(0, Math.max(1, sampleSize));
+      if (!sample.length) {
+        return {
+          success: false,
+          message: 'No rows to process with the selected overwrite policy',
+          skippedRows
+        };
+      }
+
+      const outcomes = await this.callAIModelBatch(sample.map(item => item.prompt), plan);
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      outcomes.forEach(outcome => {
+        usage.inputTokens += outcome.usage?.inputTokens || 0;
+        usage.outputTokens += outcome.usage?.outputTokens || 0;
+      });
+      UsageService.recordSpend(UsageService.getCost(plan.config.model, usage));
+
       return {
         success: true,
-        message: `Successfully processed ${results.length} rows starting from row ${config.startRow}`,
-        results
+        message: `Preview of ${sample.length} of ${pending.length} rows. Nothing was written.`,
+        rows: sample.map((item, index) => {
+          const { write, error } = this.buildRowWrite(plan, item.row, outcomes[index]);
+          return {
+            row: item.row,
+            prompt: item.prompt,
+            columns: plan.outputColumns,
+            values: write.values.map(value => PostProcessService.toText(value, plan.postProcess?.timeZone)),
+            error
+          };
+        }),
+        skippedRows
       };
     } catch (error) {
-      console.error('Error processing custom prompt:', error);
+      console.error('Error previewing prompt:', error);
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -141,170 +695,510 @@ export class PromptService {
   }
 
   /**
-   * Calls the AI model with the given prompt
-   * This is a placeholder - implement actual AI model call
+   * Estimates a run's tokens and cost from the length of its prompts, without calling the model.
+   * Cached answers aren't taken into account, so the estimate errs on the high side.
    */
-  private static async callAIModel(
-    prompt: string,
-    systemInstructions?: string,
-    model?: string,
-    modelType: string = 'language'
-  ): Promise<string> {
-    // Ensure model is defined
-    if (!model) {
-      throw new Error('Model must be specified');
+  static estimateRun(config: PromptConfig): EstimateResult {
+    if (config.aggregate) return AggregateService.estimate(config);
+
+    try {
+      const plan = this.createPlan(config);
+      const rows = config.rows?.length
+        ? config.rows
+        : SpreadsheetService.getRowNumbers(config.inputSheet, config.startRow, plan.rowCount);
+
+      const { pending } = this.prepareRows(plan, rows);
+      const usage = this.estimateUsage(plan, pending);
+      const cost = UsageService.getCost(config.model, usage);
+      const priced = plan.modelType !== 'image' && !!UsageService.getPrice(config.model);
+      const requests = pending.length * (plan.translation?.targets.length || 1);
+
+      return {
+        success: true,
+        message: priced
+          ? `About $${cost.toFixed(2)} for ${pending.length} rows (${usage.inputTokens + usage.outputTokens} tokens)`
+          : `No price is known for ${config.model}; ${pending.length} rows would be processed`,
+        rows: pending.length,
+        requests,
+        usage,
+        cost,
+        priced,
+        budgetWarning: UsageService.checkBudget(0, cost) || undefined
+      };
+    } catch (error) {
+      console.error('Error estimating run:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
     }
+  }
 
-    switch (modelType) {
-      case 'language':
-        return this.callLanguageModel(prompt, systemInstructions, model);
-      case 'search':
-        return this.callSearchModel(prompt, systemInstructions, model);
-      case 'image':
-        // TODO: Implement image model
-        throw new Error('Image model not implemented yet');
-      default:
-        throw new Error(`Unknown model type: ${modelType}`);
+  /**
+   * Gets the tokens and cost of the user's last run
+   */
+  static getLastRunUsage(): { usage: TokenUsage; cost: number; finishedAt: string } | null {
+    const json = PropertiesService.getUserProperties().getProperty(this.LAST_RUN_KEY);
+    const lastRun: LastRun | null = json ? JSON.parse(json) : null;
+    if (!lastRun?.usage) return null;
+    return { usage: lastRun.usage, cost: lastRun.cost || 0, finishedAt: lastRun.finishedAt };
+  }
+
+  /**
+   * Rough token count for the pending rows' requests, including system instructions
+   */
+  private static estimateUsage(plan: PromptPlan, pending: PendingRow[]): TokenUsage {
+    if (plan.modelType === 'image') {
+      return { inputTokens: 0, outputTokens: 0 };
     }
+
+    const { instructions } = this.getStructuredOutput(plan);
+    const systemLength = [plan.config.systemInstructions, instructions].filter(Boolean).join('\n\n').length;
+    const requestsPerRow = plan.translation?.targets.length || 1;
+    const characters = pending.reduce((total, item) => total + item.prompt.length + systemLength, 0);
+
+    return {
+      inputTokens: Math.ceil(characters * requestsPerRow / this.CHARS_PER_TOKEN),
+      outputTokens: pending.length * requestsPerRow *
+        Math.min(this.ESTIMATED_OUTPUT_TOKENS, plan.generation?.maxOutputTokens || this.ESTIMATED_OUTPUT_TOKENS)
+    };
   }
 
-  private static async callLanguageModel(
-    prompt: string,
-    systemInstructions: string = "You are a helpful assistant.",
-    model: string
-  ): Promise<string> {
-    try {
-      // Debug: Log all script properties
-      const scriptProperties = PropertiesService.getScriptProperties();
-      const allProperties = scriptProperties.getProperties();
-      console.log('Available script properties:', Object.keys(allProperties));
-      
-      // Try both property names
-      const openaiKey = scriptProperties.getProperty('OPENAI_API_KEY');
-      const apiKey = scriptProperties.getProperty('API_KEY');
-      
-      console.log('OPENAI_API_KEY exists:', !!openaiKey);
-      console.log('API_KEY exists:', !!apiKey);
-      
-      // Use OPENAI_API_KEY if available, otherwise try API_KEY
-      const API_KEY = openaiKey || apiKey || '';
-      
-      if (!API_KEY) {
-        throw new Error('OpenAI API key not found in script properties. Please check both OPENAI_API_KEY and API_KEY properties.');
+  /**
+   * Reads the input for the rows, applies the overwrite policy and builds each remaining row's prompt
+   */
+  private static prepareRows(plan: PromptPlan, rows: number[]): { pending: PendingRow[]; skippedRows: number[] } {
+    const { config } = plan;
+    const policy = config.overwritePolicy || 'skipEmptyInput';
+    const pending: PendingRow[] = [];
+    const skippedRows: number[] = [];
+    if (!rows.length) return { pending, skippedRows };
+
+    // Rows hidden by a filter or by hand are left alone
+    if (config.visibleRowsOnly) {
+      const visible = new Set(SpreadsheetService.filterVisibleRows(config.inputSheet, rows));
+      skippedRows.push(...rows.filter(row => !visible.has(row)));
+      rows = rows.filter(row => visible.has(row));
+      if (!rows.length) return { pending, skippedRows };
+    }
+
+    // Get input data from spreadsheet for these rows
+    const inputData = SpreadsheetService.getRowsByNumbers(config.inputSheet, plan.columns, rows);
+    console.log('Retrieved input data for rows', SpreadsheetService.formatRowList(rows));
+
+    const outputData = policy === 'fillEmpty' || policy === 'skipUnchanged'
+      ? SpreadsheetService.getRowsByNumbers(config.outputSheet, plan.outputColumns, rows.map(row => row + plan.outputRowOffset))
+      : [];
+    const fingerprints = policy === 'skipUnchanged'
+      ? FingerprintService.load(FingerprintService.getTarget(config.outputSheet, plan.outputColumns))
+      : new Set<string>();
+
+    // Build the prompt for each row the policy lets through
+    inputData.forEach((input, index) => {
+      const currentRow = rows[index];
+      const emptyInput = Object.values(input).every(value => value.trim() === '');
+      if (emptyInput && policy !== 'overwrite') {
+        skippedRows.push(currentRow);
+        return;
+      }
+      const hasOutput = outputData.length > 0 && Object.values(outputData[index]).some(value => value.trim() !== '');
+      if (policy === 'fillEmpty' && hasOutput) {
+        skippedRows.push(currentRow);
+        return;
       }
 
-      // Validate inputs
-      if (!prompt || prompt.trim() === '') {
-        throw new Error('Prompt cannot be empty');
+      const combinedPrompt = this.buildPrompt(plan, input);
+      const fingerprint = FingerprintService.compute([
+        combinedPrompt,
+        config.model,
+        config.systemInstructions || '',
+        config.extractionFields || '',
+        config.classification || null,
+        config.translation || null,
+        ...(config.search ? [config.search] : []),
+        ...(plan.generation ? [plan.generation] : []),
+        ...(config.postProcess ? [config.postProcess] : [])
+      ]);
+      // The same request answered before, with its answer still in the row, wherever the row has moved
+      if (policy === 'skipUnchanged' && hasOutput && fingerprints.has(fingerprint)) {
+        skippedRows.push(currentRow);
+        return;
       }
 
-      // Ensure systemInstructions has a default value if null/undefined
-      const safeSystemInstructions = systemInstructions || "You are a helpful assistant.";
-
-      // Use provided model or default to gpt-4o-mini
-      const modelToUse = model || 'gpt-4o-mini';
-
-      // Debug log the request payload
-      const payload = {
-        model: modelToUse,
-        messages: [
-          { role: "system", content: safeSystemInstructions },
-          { role: "user", content: prompt.trim() }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
-      };
-      console.log('Request payload:', JSON.stringify(payload));
+      console.log('Combined prompt for row', currentRow, ':', combinedPrompt);
+      pending.push({ row: currentRow, prompt: combinedPrompt, fingerprint });
+    });
 
-      const response = await UrlFetchApp.fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'post',
-        headers: {
-          'Authorization': `Bearer ${API_KEY}`,
-          'Content-Type': 'application/json'
-        },
-        payload: JSON.stringify(payload),
-        muteHttpExceptions: true
-      });
+    return { pending, skippedRows };
+  }
 
-      const result = JSON.parse(response.getContentText());
-      
-      if (result.error) {
-        console.error('OpenAI API error:', result.error);
-        throw new Error(result.error.message);
-      }
+  /**
+   * Turns a model outcome into the row's output cells. Failed calls get an error marker in
+   * every output column; in extraction mode only the fields that failed validation do.
+   * Classification answers outside the allowed labels are marked the same way.
+   */
+  private static buildRowWrite(plan: PromptPlan, row: number, outcome: ModelOutcome): { write: RowWrite; error?: string } {
+    const result = this.buildAnswerWrite(plan, row, outcome);
+    if (!plan.search) return result;
 
-      return result.choices[0].message.content;
-    } catch (error) {
-      console.error('Error calling OpenAI API:', error);
-      throw new Error(`AI Model Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // Sources are numbered to match the answer's [1], [2] markers
+    const sources = (outcome.citations || []).map((url, index) => `[${index + 1}] ${url}`).join('\n');
+    const notes = result.write.notes || result.write.values.map(() => '');
+    if (plan.search.sources === 'column') {
+      result.write.values.push(outcome.success ? sources : '');
+      notes.push('');
+    } else if (plan.search.sources === 'note' && outcome.success && sources && !notes[0]) {
+      notes[0] = `Sources:\n${sources}`;
     }
+    result.write.notes = notes;
+    return result;
   }
 
-  private static async callSearchModel(
-    prompt: string,
-    systemInstructions: string = "You are a helpful assistant.",
-    model: string
-  ): Promise<string> {
-    try {
-      // Get Perplexity API key
-      const scriptProperties = PropertiesService.getScriptProperties();
-      const perplexityKey = scriptProperties.getProperty('PERPLEXITY_API_KEY');
-      
-      if (!perplexityKey) {
-        throw new Error('Perplexity API key not found in script properties. Please add PERPLEXITY_API_KEY to script properties.');
+  /**
+   * Builds the answer's cells, leaving out the web search sources column
+   */
+  private static buildAnswerWrite(plan: PromptPlan, row: number, outcome: ModelOutcome): { write: RowWrite; error?: string } {
+    const columnCount = plan.outputColumns.length - (plan.search?.sourcesColumn ? 1 : 0);
+    const errorNote = (message: string) => `${this.ERROR_NOTE_PREFIX}${message}`;
+
+    // Each language succeeds or fails on its own
+    if (plan.translation && outcome.parts) {
+      const errors = outcome.parts.filter(part => !part.success).map(part => part.error || 'Unknown error');
+      const write: RowWrite = {
+        row,
+        values: outcome.parts.map(part => part.success ? part.value || '' : this.ERROR_VALUE),
+        notes: outcome.parts.map(part => part.success ? '' : errorNote(part.error || 'Unknown error'))
+      };
+      if (plan.translation.sourceLanguageColumn) {
+        write.values.push(outcome.sourceLanguage || '');
+        write.notes!.push('');
       }
+      return { write, error: errors.length ? errors.join('; ') : undefined };
+    }
+
+    if (!outcome.success) {
+      const error = outcome.error || 'Unknown error';
+      return {
+        write: { row, values: new Array(columnCount).fill(this.ERROR_VALUE), notes: new Array(columnCount).fill(errorNote(error)) },
+        error
+      };
+    }
 
-      // Validate inputs
-      if (!prompt || prompt.trim() === '') {
-        throw new Error('Prompt cannot be empty');
+    if (plan.classification) {
+      const classified = ClassificationService.parseResponse(outcome.value || '', plan.classification);
+      const detail = plan.classification.detail !== 'none' ? [classified.detail] : [];
+      if (classified.invalid.length) {
+        const error = `Not an allowed label: ${classified.invalid.join(', ')}`;
+        return {
+          write: { row, values: [this.ERROR_VALUE, ...detail], notes: [errorNote(error), ...detail.map(() => '')] },
+          error
+        };
       }
+      return { write: { row, values: [classified.labels.join(', '), ...detail], notes: ['', ...detail.map(() => '')] } };
+    }
 
-      // Validate model is one of the supported Perplexity models
-      const validModels = [
-        'llama-3.1-sonar-small-128k-online',
-        'llama-3.1-sonar-large-128k-online',
-        'llama-3.1-sonar-huge-128k-online'
-      ];
-      
-      if (!validModels.includes(model)) {
-        throw new Error(`Invalid Perplexity model. Must be one of: ${validModels.join(', ')}`);
+    if (!plan.extractionFields) {
+      const value = plan.search?.stripMarkers
+        ? (outcome.value || '').replace(/ ?\[\d+\]/g, '')
+        : outcome.value || '';
+      if (!plan.postProcess) {
+        return { write: { row, values: [value], notes: [''] } };
       }
 
-      // Note: According to docs, search models don't attend to system prompts
-      // but we'll include it in the request for consistency
-      const payload = {
-        model: model,
-        messages: [
-          { role: "system", content: systemInstructions },
-          { role: "user", content: prompt.trim() }
-        ],
-        temperature: 0.7,
-        max_tokens: 1000
+      const processed = PostProcessService.apply(value, plan.postProcess);
+      if (processed.error) {
+        return {
+          write: { row, values: new Array(columnCount).fill(this.ERROR_VALUE), notes: new Array(columnCount).fill(errorNote(processed.error)) },
+          error: processed.error
+        };
+      }
+      return { write: { row, values: processed.values, notes: processed.notes } };
+    }
+
+    const extracted = ExtractionService.parseResponse(outcome.value || '', plan.extractionFields);
+    if (extracted.error) {
+      return {
+        write: { row, values: new Array(columnCount).fill(this.ERROR_VALUE), notes: new Array(columnCount).fill(errorNote(extracted.error)) },
+        error: extracted.error
       };
+    }
 
-      console.log('Perplexity request payload:', JSON.stringify(payload));
+    const fieldErrors = Object.values(extracted.errors);
+    return {
+      write: {
+        row,
+        values: plan.extractionFields.map(field => extracted.errors[field.name] ? this.ERROR_VALUE : extracted.values[field.name]),
+        notes: plan.extractionFields.map(field => extracted.errors[field.name] ? errorNote(extracted.errors[field.name]) : '')
+      },
+      error: fieldErrors.length ? fieldErrors.join('; ') : undefined
+    };
+  }
 
-      const response = await UrlFetchApp.fetch('https://api.perplexity.ai/chat/completions', {
-        method: 'post',
-        headers: {
-          'Authorization': `Bearer ${perplexityKey}`,
-          'Content-Type': 'application/json'
-        },
-        payload: JSON.stringify(payload),
-        muteHttpExceptions: true
+  /**
+   * Re-runs only the rows that failed in the user's last run, with the same config
+   */
+  static async retryFailedRows(): Promise<PromptResult> {
+    const json = PropertiesService.getUserProperties().getProperty(this.LAST_RUN_KEY);
+    const lastRun: LastRun | null = json ? JSON.parse(json) : null;
+    const rows = lastRun ? SpreadsheetService.parseRowList(lastRun.failedRows) : [];
+
+    if (!lastRun || !rows.length) {
+      return {
+        success: false,
+        message: 'There are no failed rows to retry'
+      };
+    }
+
+    return this.processCustomPrompt({ ...lastRun.config, rows }, 'retry');
+  }
+
+  /**
+   * Restores the cells a run overwrote. Cells edited since the run block the undo unless forced.
+   */
+  static undoRun(runId: string, force: boolean = false): UndoResult {
+    const result = UndoService.undoRun(runId, force);
+    if (result.success) {
+      HistoryService.markUndone(runId);
+    }
+    return result;
+  }
+
+  /**
+   * Adds a finished (or failed) run to the user's history
+   */
+  private static recordRun(
+    runId: string,
+    plan: PromptPlan,
+    source: RunRecord['source'],
+    startedAt: Date,
+    chunk: ChunkResult | null,
+    message?: string
+  ): RunRecord {
+    const finishedAt = new Date();
+    return HistoryService.recordRun({
+      id: runId,
+      source,
+      status: chunk ? 'completed' : 'failed',
+      config: plan.config,
+      model: plan.config.model,
+      modelType: plan.modelType,
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      rowsProcessed: chunk?.processed || 0,
+      rowsFailed: chunk?.failedRows.length || 0,
+      rowsSkipped: chunk?.skippedRows.length || 0,
+      cacheHits: chunk?.cacheHits || 0,
+      usage: chunk?.usage || { inputTokens: 0, outputTokens: 0 },
+      cost: chunk?.cost || 0,
+      samples: chunk?.samples || [],
+      message
+    });
+  }
+
+  /**
+   * Remembers a finished run's config and failed rows so they can be retried, and its cost
+   */
+  static saveLastRun(config: PromptConfig, failedRows: number[], usage?: TokenUsage, cost?: number): void {
+    const { rows, ...reusableConfig } = config;
+    const lastRun: LastRun = {
+      config: reusableConfig,
+      failedRows: SpreadsheetService.formatRowList(failedRows),
+      finishedAt: new Date().toISOString(),
+      usage,
+      cost
+    };
+    PropertiesService.getUserProperties().setProperty(this.LAST_RUN_KEY, JSON.stringify(lastRun));
+  }
+
+  /**
+   * Templated prompts take their content from the row; plain prompts get the input cell appended
+   */
+  private static buildPrompt(plan: PromptPlan, input: Record<string, string>): string {
+    if (plan.variables.length) {
+      const values: Record<string, string> = {};
+      plan.variables.forEach(variable => {
+        values[variable] = input[plan.variableColumns[variable]].trim();
       });
+      return TemplateService.render(plan.config.prompt, values);
+    }
 
-      const result = JSON.parse(response.getContentText());
-      
-      if (result.error) {
-        console.error('Perplexity API error:', result.error);
-        throw new Error(result.error.message);
-      }
+    // A multi-column range sends each row's cells together, one per line
+    const cellContent = plan.rangeColumns
+      ? plan.rangeColumns.map(column => input[column].trim()).filter(Boolean).join('\n')
+      : input[plan.inputColumn].trim();
+    // Translation sends the text alone; the prompt becomes context in the system instructions
+    if (plan.translation) {
+      return cellContent;
+    }
+    return `${plan.config.prompt}\n\nContent to process: ${cellContent}`;
+  }
 
-      return result.choices[0].message.content;
-    } catch (error) {
-      console.error('Error calling Perplexity API:', error);
-      throw new Error(`Search Model Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  /**
+   * Sends one request per text and target language, and groups the answers back per text
+   */
+  private static translateBatch(texts: string[], plan: PromptPlan): ModelOutcome[] {
+    const translation = plan.translation!;
+    const { model, prompt, systemInstructions, bypassCache } = plan.config;
+    const context = plan.variables.length ? systemInstructions : [prompt, systemInstructions].filter(Boolean).join('\n');
+    const protectedTexts = texts.map(text =>
+      translation.preserveFormatting ? TranslationService.protect(text) : { text, tokens: [] }
+    );
+
+    const requests: CompletionRequest[] = [];
+    protectedTexts.forEach(({ text }) => {
+      translation.targets.forEach(target => {
+        requests.push({
+          model,
+          prompt: text,
+          systemInstructions: TranslationService.buildInstructions(target.language, translation.glossary, text, context),
+          jsonSchema: TranslationService.buildSchema(),
+          params: plan.generation
+        });
+      });
+    });
+    const outcomes = this.dispatchWithCache(requests, !!bypassCache);
+
+    const languageCount = translation.targets.length;
+    return protectedTexts.map(({ tokens }, textIndex) => {
+      const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+      let sourceLanguage = '';
+
+      const parts = outcomes.slice(textIndex * languageCount, (textIndex + 1) * languageCount).map(outcome => {
+        if (outcome.usage) {
+          usage.inputTokens += outcome.usage.inputTokens;
+          usage.outputTokens += outcome.usage.outputTokens;
+        }
+        if (!outcome.success) return outcome;
+
+        const answer = TranslationService.parseResponse(outcome.value || '', tokens);
+        sourceLanguage = sourceLanguage || answer.sourceLanguage;
+        return answer.error
+          ? { success: false, error: answer.error }
+          : { success: true, value: answer.translation };
+      });
+
+      return {
+        success: parts.some(part => part.success),
+        value: parts.find(part => part.success)?.value,
+        error: parts.find(part => !part.success)?.error,
+        usage,
+        cached: outcomes.slice(textIndex * languageCount, (textIndex + 1) * languageCount).every(outcome => outcome.cached),
+        parts,
+        sourceLanguage
+      };
+    });
+  }
+
+  /**
+   * Extraction and classification ask for JSON via a schema, and also spell out the expected
+   * answer in the system instructions for providers that can't enforce one
+   */
+  private static getStructuredOutput(plan: PromptPlan): { instructions?: string; jsonSchema?: Record<string, unknown> } {
+    if (plan.extractionFields) {
+      return {
+        instructions: ExtractionService.buildInstructions(plan.extractionFields),
+        jsonSchema: ExtractionService.buildSchema(plan.extractionFields)
+      };
+    }
+    if (plan.classification) {
+      return {
+        instructions: ClassificationService.buildInstructions(plan.classification),
+        jsonSchema: ClassificationService.buildSchema(plan.classification)
+      };
     }
+    return {};
   }
-} 
\ No newline at end of file
+
+  /**
+   * Calls the AI model for a batch of prompts, returning one outcome per prompt.
+   * Text models are dispatched in parallel; images are generated side by side where the provider allows.
+   */
+  private static async callAIModelBatch(prompts: string[], plan: PromptPlan): Promise<ModelOutcome[]> {
+    const { model, imageOptions, bypassCache } = plan.config;
+
+    // Ensure model is defined
+    if (!model) {
+      throw new Error('Model must be specified');
+    }
+
+    switch (plan.modelType) {
+      case 'language':
+      case 'search': {
+        if (plan.translation) {
+          return this.translateBatch(prompts, plan);
+        }
+        const { instructions, jsonSchema } = this.getStructuredOutput(plan);
+        const systemInstructions = [plan.config.systemInstructions, instructions].filter(Boolean).join('\n\n') || undefined;
+
+        const search = plan.search?.options;
+        const params = plan.generation;
+        return this.dispatchWithCache(
+          prompts.map(prompt => ({ model, prompt, systemInstructions, jsonSchema, search, params })),
+          !!bypassCache
+        );
+      }
+      case 'image':
+        try {
+          return ImageService.generateCellValues(prompts, model, imageOptions);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          return prompts.map(() => ({ success: false, error: message }));
+        }
+      default:
+        throw new Error(`Unknown model type: ${plan.modelType}`);
+    }
+  }
+
+  /**
+   * Answers requests from the response cache where possible and sends each distinct
+   * remaining request once. Bypassing the cache sends every request but still refreshes it.
+   */
+  static dispatchWithCache(requests: CompletionRequest[], bypassCache: boolean): ModelOutcome[] {
+    const keys = requests.map(request => ResponseCacheService.getKey(request));
+    const cached = bypassCache ? {} : ResponseCacheService.getAll(keys);
+
+    // Duplicate prompts within the batch only need one call unless the cache is bypassed
+    const pendingIndexes: number[] = [];
+    keys.forEach((key, index) => {
+      if (cached[key] === undefined && (bypassCache || keys.indexOf(key) === index)) {
+        pendingIndexes.push(index);
+      }
+    });
+    const dispatched = DispatchService.dispatch(pendingIndexes.map(index => requests[index]));
+
+    const outcomes: ModelOutcome[] = new Array(requests.length);
+    const fresh: Record<string, CachedResponse> = {};
+    pendingIndexes.forEach((requestIndex, index) => {
+      const outcome = dispatched[index];
+      outcomes[requestIndex] = {
+        success: outcome.success,
+        value: outcome.response?.text,
+        error: outcome.error,
+        usage: outcome.response?.usage,
+        citations: outcome.response?.citations
+      };
+      if (outcome.success && outcome.response?.text) {
+        fresh[keys[requestIndex]] = { text: outcome.response.text, citations: outcome.response.citations };
+      }
+    });
+    ResponseCacheService.putAll(fresh);
+
+    return keys.map((key, index) => {
+      if (outcomes[index]) return outcomes[index];
+      if (cached[key] !== undefined) {
+        return { success: true, value: cached[key].text, citations: cached[key].citations, cached: true };
+      }
+
+      // Reuse the outcome of the identical request sent earlier in this batch
+      const original = outcomes[keys.indexOf(key)];
+      return {
+        success: original.success,
+        value: original.value,
+        error: original.error,
+        citations: original.citations,
+        cached: original.success
+      };
+    });
+  }
+}
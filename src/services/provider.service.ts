@@ -0,0 +1,193 @@
+import 'google-apps-script';
+import { DispatchService, RateLimits } from './dispatch.service';
+import { AnthropicProvider } from './providers/anthropic.provider';
+import { OpenAICompatibleProvider } from './providers/openai-compatible.provider';
+import { PerplexityProvider } from './providers/perplexity.provider';
+import { SettingsService } from './settings.service';
+
+export interface CompletionRequest {
+  model: string;
+  prompt: string;
+  systemInstructions?: string;
+  // Ask for a JSON object matching this schema, using the provider's structured output feature
+  jsonSchema?: Record<string, unknown>;
+  search?: SearchOptions;
+  params?: GenerationParams;
+}
+
+/**
+ * Sampling and length settings for a request. Unset values fall back to the defaults,
+ * and settings a model doesn't take are left out.
+ */
+export interface GenerationParams {
+  temperature?: number;
+  maxOutputTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+}
+
+/**
+ * Web search settings for search models. Providers without web search ignore them.
+ */
+export interface SearchOptions {
+  recency?: 'hour' | 'day' | 'week' | 'month' | 'year';
+  includeDomains?: string[];
+  excludeDomains?: string[];
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface CompletionResponse {
+  text: string;
+  usage?: TokenUsage;
+  // Source URLs of a web search answer; inline markers like [1] refer to citations[0]
+  citations?: string[];
+}
+
+/**
+ * A model provider knows how to turn a completion request into an HTTP request
+ * for its API and how to read the answer back. Fetching is left to the caller.
+ */
+export interface ModelProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly keyProperty: string;
+  readonly keyOptional?: boolean;
+  readonly defaultLimits?: Partial<RateLimits>;
+  supportsModel(model: string): boolean;
+  buildRequest(request: CompletionRequest, apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest;
+  parseResponse(response: GoogleAppsScript.URL_Fetch.HTTPResponse): CompletionResponse;
+  // A cheap authenticated request for the settings panel's connection test
+  buildTestRequest?(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest;
+}
+
+interface ResolvedModel {
+  provider: ModelProvider;
+  model: string;
+}
+
+export class ProviderService {
+  private static providers: ModelProvider[] | null = null;
+
+  /**
+   * Gets the registered providers, creating the built-in ones on first use
+   */
+  static getProviders(): ModelProvider[] {
+    if (!this.providers) {
+      this.providers = this.createBuiltInProviders();
+    }
+    return this.providers;
+  }
+
+  /**
+   * Registers an additional provider. Later registrations win over earlier ones.
+   */
+  static register(provider: ModelProvider): void {
+    const providers = this.getProviders().filter(p => p.id !== provider.id);
+    providers.unshift(provider);
+    this.providers = providers;
+  }
+
+  /**
+   * Finds the provider for a model ID, or null if no provider handles it.
+   * An explicit 'providerId:model' prefix (e.g. 'custom:llama3') bypasses model matching.
+   */
+  static findProvider(model: string): ResolvedModel | null {
+    const providers = this.getProviders();
+
+    const separator = model.indexOf(':');
+    if (separator > 0) {
+      const provider = providers.find(p => p.id === model.slice(0, separator));
+      if (provider) {
+        return { provider, model: model.slice(separator + 1) };
+      }
+    }
+
+    const provider = providers.find(p => p.supportsModel(model));
+    return provider ? { provider, model } : null;
+  }
+
+  /**
+   * Resolves a model ID to its provider, throwing if the model is not supported
+   */
+  static resolve(model: string): ResolvedModel {
+    const resolved = this.findProvider(model);
+    if (!resolved) {
+      throw new Error(`No provider is configured for model "${model}"`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Gets the API key for a provider: the user's personal key, otherwise the organization key
+   */
+  static getApiKey(provider: Pick<ModelProvider, 'name' | 'keyProperty' | 'keyOptional'>): string {
+    const apiKey = SettingsService.getKey(provider.keyProperty);
+    if (!apiKey && !provider.keyOptional) {
+      throw new Error(`No ${provider.name} API key found. Add your own key in the sidebar settings, or ask your admin to add ${provider.keyProperty} to script properties.`);
+    }
+    return apiKey;
+  }
+
+  /**
+   * Sends a completion request to whichever provider serves the requested model
+   */
+  static complete(request: CompletionRequest): CompletionResponse {
+    const [outcome] = DispatchService.dispatch([request]);
+    if (!outcome.success || !outcome.response) {
+      throw new Error(outcome.error || 'Unknown error');
+    }
+    return outcome.response;
+  }
+
+  private static createBuiltInProviders(): ModelProvider[] {
+    const scriptProperties = PropertiesService.getScriptProperties();
+    const providers: ModelProvider[] = [
+      new OpenAICompatibleProvider({
+        id: 'openai',
+        name: 'OpenAI',
+        baseUrl: 'https://api.openai.com/v1',
+        keyProperty: 'OPENAI_API_KEY',
+        defaultLimits: { concurrency: 10, rpm: 500, tpm: 200000 },
+        modelPattern: /^(gpt-|chatgpt-|o\d)/,
+        jsonMode: 'schema'
+      }),
+      new PerplexityProvider(),
+      new AnthropicProvider(),
+      new OpenAICompatibleProvider({
+        id: 'deepseek',
+        name: 'DeepSeek',
+        baseUrl: 'https://api.deepseek.com/v1',
+        keyProperty: 'DEEPSEEK_API_KEY',
+        defaultLimits: { concurrency: 10, rpm: 300 },
+        modelPattern: /^deepseek-/i,
+        aliases: { 'DeepSeek-V3': 'deepseek-chat', 'DeepSeek-R1': 'deepseek-reasoner' }
+      })
+    ];
+
+    // Any OpenAI-compatible endpoint (internal gateway, local stub server, ...)
+    const customBaseUrl = scriptProperties.getProperty('CUSTOM_OPENAI_BASE_URL');
+    if (customBaseUrl) {
+      const customModels = (scriptProperties.getProperty('CUSTOM_OPENAI_MODELS') || '')
+        .split(',')
+        .map(model => model.trim())
+        .filter(Boolean);
+
+      providers.unshift(new OpenAICompatibleProvider({
+        id: 'custom',
+        name: scriptProperties.getProperty('CUSTOM_OPENAI_NAME') || 'Custom endpoint',
+        baseUrl: customBaseUrl,
+        keyProperty: 'CUSTOM_OPENAI_API_KEY',
+        keyOptional: true,
+        defaultLimits: { concurrency: 4 },
+        models: customModels
+      }));
+    }
+
+    return providers;
+  }
+}
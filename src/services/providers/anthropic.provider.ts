@@ -0,0 +1,94 @@
+import 'google-apps-script';
+import { ModelCatalogService } from '../model-catalog.service';
+import { CompletionRequest, CompletionResponse, ModelProvider } from '../provider.service';
+import { parseJsonResponse } from './openai-compatible.provider';
+
+// A text block, or the tool call that carries structured output
+interface ContentBlock {
+  type: string;
+  text?: string;
+  input?: unknown;
+}
+
+interface MessagesResponse {
+  content?: ContentBlock[];
+  usage?: { input_tokens?: number; output_tokens?: number };
+}
+
+/**
+ * Anthropic's Messages API (Claude models)
+ */
+export class AnthropicProvider implements ModelProvider {
+  readonly id = 'anthropic';
+  readonly name = 'Anthropic';
+  readonly keyProperty = 'ANTHROPIC_API_KEY';
+  readonly defaultLimits = { concurrency: 5, rpm: 50, tpm: 40000 };
+
+  private static readonly JSON_TOOL_NAME = 'record_fields';
+
+  supportsModel(model: string): boolean {
+    return /^claude-/.test(model);
+  }
+
+  buildRequest(request: CompletionRequest, apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    const payload: Record<string, unknown> = {
+      model: request.model,
+      system: request.systemInstructions || 'You are a helpful assistant.',
+      messages: [
+        { role: 'user', content: request.prompt.trim() }
+      ],
+      ...ModelCatalogService.buildParams(request.model, request.params, ModelCatalogService.ANTHROPIC_PARAMS)
+    };
+
+    // Claude has no JSON mode, so structured output goes through a forced tool call
+    if (request.jsonSchema) {
+      payload.tools = [{
+        name: AnthropicProvider.JSON_TOOL_NAME,
+        description: 'Record the extracted fields',
+        input_schema: request.jsonSchema
+      }];
+      payload.tool_choice = { type: 'tool', name: AnthropicProvider.JSON_TOOL_NAME };
+    }
+
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      method: 'post',
+      contentType: 'application/json',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      payload: JSON.stringify(payload),
+      muteHttpExceptions: true
+    };
+  }
+
+  buildTestRequest(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    return {
+      url: 'https://api.anthropic.com/v1/models',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      muteHttpExceptions: true
+    };
+  }
+
+  parseResponse(response: GoogleAppsScript.URL_Fetch.HTTPResponse): CompletionResponse {
+    const result = parseJsonResponse<MessagesResponse>(response);
+    const content = result.content || [];
+    const toolUse = content.find(block => block.type === 'tool_use');
+    const text = toolUse ? JSON.stringify(toolUse.input) : content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    return {
+      text,
+      usage: result.usage ? {
+        inputTokens: result.usage.input_tokens || 0,
+        outputTokens: result.usage.output_tokens || 0
+      } : undefined
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import 'google-apps-script';
+import { ImageProvider, ImageRequest } from '../image.service';
+import { parseJsonResponse } from './openai-compatible.provider';
+
+interface SubmitResponse {
+  id?: string;
+  polling_url?: string;
+}
+
+interface ResultResponse {
+  status?: string;
+  result?: { sample?: string };
+}
+
+/**
+ * Black Forest Labs FLUX API. Generation is asynchronous: a task is submitted,
+ * then polled until the image is ready.
+ */
+export class BflImageProvider implements ImageProvider {
+  readonly id = 'bfl';
+  readonly name = 'Black Forest Labs';
+  readonly keyProperty = 'BFL_API_KEY';
+
+  private static readonly BASE_URL = 'https://api.bfl.ml/v1';
+  private static readonly POLL_INTERVAL_MS = 1500;
+  // Total wait for a chunk's images, leaving most of the execution time for the rest of the run
+  private static readonly MAX_WAIT_MS = 90 * 1000;
+
+  // Sidebar model IDs -> BFL endpoints
+  private static readonly ENDPOINTS: Record<string, string> = {
+    'FLUX.1 [dev]': 'flux-dev',
+    'FLUX.1 [pro] new': 'flux-pro',
+    'FLUX1.1 [pro]': 'flux-pro-1.1',
+    'FLUX1.1 [pro] ultra': 'flux-pro-1.1-ultra'
+  };
+
+  supportsModel(model: string): boolean {
+    return Object.prototype.hasOwnProperty.call(BflImageProvider.ENDPOINTS, model);
+  }
+
+  generate(request: ImageRequest, apiKey: string): GoogleAppsScript.Base.Blob {
+    const [result] = this.generateAll([request], apiKey);
+    if (result instanceof Error) throw result;
+    return result;
+  }
+
+  /**
+   * Submits every task first, then polls the unfinished ones together, so a chunk of rows
+   * waits about as long as its slowest image instead of the sum of all of them
+   */
+  generateAll(requests: ImageRequest[], apiKey: string): Array<GoogleAppsScript.Base.Blob | Error> {
+    const results: Array<GoogleAppsScript.Base.Blob | Error | null> = requests.map(() => null);
+    const pollingUrls: Array<string | null> = UrlFetchApp.fetchAll(requests.map(request => this.buildSubmitRequest(request, apiKey)))
+      .map((response, index) => {
+        try {
+          const submitted = parseJsonResponse<SubmitResponse>(response);
+          return submitted.polling_url || `${BflImageProvider.BASE_URL}/get_result?id=${submitted.id}`;
+        } catch (error) {
+          results[index] = error instanceof Error ? error : new Error('Image generation failed');
+          return null;
+        }
+      });
+
+    const deadline = Date.now() + BflImageProvider.MAX_WAIT_MS;
+    let pending = requests.map((_request, index) => index).filter(index => pollingUrls[index]);
+    while (pending.length && Date.now() < deadline) {
+      Utilities.sleep(BflImageProvider.POLL_INTERVAL_MS);
+
+      const responses = UrlFetchApp.fetchAll(pending.map(index => ({
+        url: pollingUrls[index]!,
+        headers: { 'x-key': apiKey },
+        muteHttpExceptions: true
+      })));
+      const ready: Array<{ index: number; url: string }> = [];
+      responses.forEach((response, position) => {
+        const index = pending[position];
+        try {
+          const result = parseJsonResponse<ResultResponse>(response);
+          if (result.status === 'Ready') {
+            if (!result.result?.sample) throw new Error('No image returned');
+            ready.push({ index, url: result.result.sample });
+          } else if (['Error', 'Request Moderated', 'Content Moderated', 'Task not found'].includes(result.status || '')) {
+            results[index] = new Error(`Image generation failed: ${result.status}`);
+          }
+        } catch (error) {
+          results[index] = error instanceof Error ? error : new Error('Image generation failed');
+        }
+      });
+
+      // Download the finished images together
+      UrlFetchApp.fetchAll(ready.map(({ url }) => ({ url, muteHttpExceptions: true }))).forEach((response, position) => {
+        results[ready[position].index] = response.getResponseCode() < 400
+          ? response.getBlob()
+          : new Error(`Could not download the image (HTTP ${response.getResponseCode()})`);
+      });
+      pending = pending.filter(index => results[index] === null);
+    }
+
+    return results.map(result => result || new Error('Timed out waiting for the image to be generated'));
+  }
+
+  private buildSubmitRequest(request: ImageRequest, apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    const endpoint = BflImageProvider.ENDPOINTS[request.model];
+
+    // Ultra takes an aspect ratio; the other endpoints take explicit dimensions
+    const payload = endpoint === 'flux-pro-1.1-ultra'
+      ? { prompt: request.prompt, aspect_ratio: request.aspectRatio }
+      : { prompt: request.prompt, width: request.width, height: request.height };
+
+    return {
+      url: `${BflImageProvider.BASE_URL}/${endpoint}`,
+      method: 'post',
+      contentType: 'application/json',
+      headers: { 'x-key': apiKey },
+      payload: JSON.stringify(payload),
+      muteHttpExceptions: true
+    };
+  }
+}
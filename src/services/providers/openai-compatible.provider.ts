@@ -0,0 +1,149 @@
+import 'google-apps-script';
+import { RateLimits } from '../dispatch.service';
+import { ModelCatalogService } from '../model-catalog.service';
+import { CompletionRequest, CompletionResponse, ModelProvider } from '../provider.service';
+
+interface OpenAICompatibleOptions {
+  id: string;
+  name: string;
+  baseUrl: string;
+  keyProperty: string;
+  keyOptional?: boolean;
+  defaultLimits?: Partial<RateLimits>;
+  modelPattern?: RegExp;
+  models?: string[];
+  aliases?: Record<string, string>;
+  // 'schema' for APIs with strict structured outputs, 'object' for plain JSON mode (the default)
+  jsonMode?: 'schema' | 'object';
+}
+
+/**
+ * The parts of a chat completions response we read; every field may be missing
+ */
+export interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+// How APIs report errors: { error: { message } }, { error: "..." } or { detail: ... }
+interface ApiErrorBody {
+  error?: { message?: unknown } | string;
+  detail?: unknown;
+}
+
+/**
+ * Provider for any API that speaks the OpenAI chat completions format
+ */
+export class OpenAICompatibleProvider implements ModelProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly keyProperty: string;
+  readonly keyOptional: boolean;
+  readonly defaultLimits?: Partial<RateLimits>;
+
+  private readonly baseUrl: string;
+  private readonly modelPattern?: RegExp;
+  private readonly models: string[];
+  private readonly aliases: Record<string, string>;
+  private readonly jsonMode: 'schema' | 'object';
+
+  constructor(options: OpenAICompatibleOptions) {
+    this.id = options.id;
+    this.name = options.name;
+    this.keyProperty = options.keyProperty;
+    this.keyOptional = !!options.keyOptional;
+    this.defaultLimits = options.defaultLimits;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.modelPattern = options.modelPattern;
+    this.models = options.models || [];
+    this.aliases = options.aliases || {};
+    this.jsonMode = options.jsonMode || 'object';
+  }
+
+  supportsModel(model: string): boolean {
+    return this.models.includes(model) ||
+      Object.prototype.hasOwnProperty.call(this.aliases, model) ||
+      !!this.modelPattern?.test(model);
+  }
+
+  buildRequest(request: CompletionRequest, apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    // Reasoning models reject system messages, so the instructions lead the user message instead
+    const messages = ModelCatalogService.supportsSystemPrompt(request.model)
+      ? [
+        { role: 'system', content: request.systemInstructions || 'You are a helpful assistant.' },
+        { role: 'user', content: request.prompt.trim() }
+      ]
+      : [
+        { role: 'user', content: [request.systemInstructions, request.prompt.trim()].filter(Boolean).join('\n\n') }
+      ];
+
+    const payload: Record<string, unknown> = {
+      model: this.aliases[request.model] || request.model,
+      messages,
+      ...ModelCatalogService.buildParams(request.model, request.params, ModelCatalogService.OPENAI_PARAMS)
+    };
+
+    // Models without JSON mode still get the expected answer spelled out in the instructions
+    if (request.jsonSchema && ModelCatalogService.supportsJson(request.model)) {
+      payload.response_format = this.jsonMode === 'schema'
+        ? { type: 'json_schema', json_schema: { name: 'extraction', strict: true, schema: request.jsonSchema } }
+        : { type: 'json_object' };
+    }
+
+    const headers: Record<string, string> = {};
+    if (apiKey) {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    return {
+      url: `${this.baseUrl}/chat/completions`,
+      method: 'post',
+      contentType: 'application/json',
+      headers,
+      payload: JSON.stringify(payload),
+      muteHttpExceptions: true
+    };
+  }
+
+  buildTestRequest(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    return {
+      url: `${this.baseUrl}/models`,
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      muteHttpExceptions: true
+    };
+  }
+
+  parseResponse(response: GoogleAppsScript.URL_Fetch.HTTPResponse): CompletionResponse {
+    const result = parseJsonResponse<ChatCompletionResponse>(response);
+
+    return {
+      text: result.choices?.[0]?.message?.content ?? '',
+      usage: result.usage ? {
+        inputTokens: result.usage.prompt_tokens || 0,
+        outputTokens: result.usage.completion_tokens || 0
+      } : undefined
+    };
+  }
+}
+
+/**
+ * Parses a JSON API response, throwing the API's own error message when there is one.
+ * The caller describes the response shape it reads.
+ */
+export function parseJsonResponse<T>(response: GoogleAppsScript.URL_Fetch.HTTPResponse): T {
+  const statusCode = response.getResponseCode();
+  let result: unknown;
+  try {
+    result = JSON.parse(response.getContentText());
+  } catch (error) {
+    throw new Error(`Unexpected response (HTTP ${statusCode})`);
+  }
+
+  const body: ApiErrorBody = result && typeof result === 'object' ? result : {};
+  if (body.error || statusCode >= 400) {
+    const message = (typeof body.error === 'object' ? body.error.message : body.error) || body.detail || `HTTP ${statusCode}`;
+    throw new Error(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  return result as T;
+}
@@ -0,0 +1,103 @@
+import 'google-apps-script';
+import { ModelCatalogService } from '../model-catalog.service';
+import { CompletionRequest, CompletionResponse, ModelProvider } from '../provider.service';
+import { ChatCompletionResponse, parseJsonResponse } from './openai-compatible.provider';
+
+interface SearchCompletionResponse extends ChatCompletionResponse {
+  citations?: string[];
+  search_results?: Array<{ url: string }>;
+}
+
+/**
+ * Perplexity's online (web search) models
+ */
+export class PerplexityProvider implements ModelProvider {
+  readonly id = 'perplexity';
+  readonly name = 'Perplexity';
+  readonly keyProperty = 'PERPLEXITY_API_KEY';
+  readonly defaultLimits = { concurrency: 5, rpm: 50 };
+
+  private static readonly MODELS = [
+    'llama-3.1-sonar-small-128k-online',
+    'llama-3.1-sonar-large-128k-online',
+    'llama-3.1-sonar-huge-128k-online',
+    'sonar',
+    'sonar-pro',
+    'sonar-reasoning'
+  ];
+
+  supportsModel(model: string): boolean {
+    return PerplexityProvider.MODELS.includes(model);
+  }
+
+  buildRequest(request: CompletionRequest, apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    // Note: According to docs, search models don't attend to system prompts
+    // but we'll include it in the request for consistency
+    const payload: Record<string, unknown> = {
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.systemInstructions || 'You are a helpful assistant.' },
+        { role: 'user', content: request.prompt.trim() }
+      ],
+      ...ModelCatalogService.buildParams(request.model, request.params, ModelCatalogService.PERPLEXITY_PARAMS)
+    };
+
+    if (request.jsonSchema) {
+      payload.response_format = { type: 'json_schema', json_schema: { schema: request.jsonSchema } };
+    }
+
+    const search = request.search;
+    if (search?.recency) {
+      payload.search_recency_filter = search.recency;
+    }
+    // One list for both: excluded domains are prefixed with a minus
+    const domains = [
+      ...(search?.includeDomains || []),
+      ...(search?.excludeDomains || []).map(domain => `-${domain}`)
+    ];
+    if (domains.length) {
+      payload.search_domain_filter = domains;
+    }
+
+    return {
+      url: 'https://api.perplexity.ai/chat/completions',
+      method: 'post',
+      contentType: 'application/json',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`
+      },
+      payload: JSON.stringify(payload),
+      muteHttpExceptions: true
+    };
+  }
+
+  // Perplexity has no model list, so the test is a one-token completion
+  buildTestRequest(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    return {
+      url: 'https://api.perplexity.ai/chat/completions',
+      method: 'post',
+      contentType: 'application/json',
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      payload: JSON.stringify({ model: 'sonar', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 1 }),
+      muteHttpExceptions: true
+    };
+  }
+
+  parseResponse(response: GoogleAppsScript.URL_Fetch.HTTPResponse): CompletionResponse {
+    const result = parseJsonResponse<SearchCompletionResponse>(response);
+
+    // Newer responses list search_results with titles; older ones only the citation URLs
+    const citations: string[] = Array.isArray(result.citations)
+      ? result.citations
+      : (result.search_results || []).map(source => source.url);
+
+    return {
+      text: result.choices?.[0]?.message?.content ?? '',
+      usage: result.usage ? {
+        inputTokens: result.usage.prompt_tokens || 0,
+        outputTokens: result.usage.completion_tokens || 0
+      } : undefined,
+      citations: citations.length ? citations : undefined
+    };
+  }
+}
@@ -0,0 +1,60 @@
+import 'google-apps-script';
+import { ImageProvider, ImageRequest } from '../image.service';
+import { parseJsonResponse } from './openai-compatible.provider';
+
+interface GenerationResponse {
+  data?: Array<{ b64_json?: string }>;
+}
+
+/**
+ * Together AI image generation, used for the FLUX models BFL doesn't serve directly
+ */
+export class TogetherImageProvider implements ImageProvider {
+  readonly id = 'together';
+  readonly name = 'Together AI';
+  readonly keyProperty = 'TOGETHER_API_KEY';
+
+  // Sidebar model IDs -> Together model names
+  private static readonly MODELS: Record<string, { name: string; steps: number }> = {
+    'FLUX.1 [schnell]': { name: 'black-forest-labs/FLUX.1-schnell', steps: 4 }
+  };
+
+  supportsModel(model: string): boolean {
+    return Object.prototype.hasOwnProperty.call(TogetherImageProvider.MODELS, model);
+  }
+
+  buildTestRequest(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest {
+    return {
+      url: 'https://api.together.xyz/v1/models',
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      muteHttpExceptions: true
+    };
+  }
+
+  generate(request: ImageRequest, apiKey: string): GoogleAppsScript.Base.Blob {
+    const model = TogetherImageProvider.MODELS[request.model];
+
+    const result = parseJsonResponse<GenerationResponse>(UrlFetchApp.fetch('https://api.together.xyz/v1/images/generations', {
+      method: 'post',
+      contentType: 'application/json',
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      payload: JSON.stringify({
+        model: model.name,
+        prompt: request.prompt,
+        width: request.width,
+        height: request.height,
+        steps: model.steps,
+        n: 1,
+        response_format: 'b64_json'
+      }),
+      muteHttpExceptions: true
+    }));
+
+    const image = result.data?.[0];
+    if (!image?.b64_json) {
+      throw new Error('No image returned');
+    }
+
+    return Utilities.newBlob(Utilities.base64Decode(image.b64_json), 'image/png');
+  }
+}
@@ -0,0 +1,90 @@
+import 'google-apps-script';
+import { CompletionRequest, CompletionResponse, ProviderService } from './provider.service';
+
+export type CachedResponse = Pick<CompletionResponse, 'text' | 'citations'>;
+
+/**
+ * Content-addressed cache of model responses. Identical requests (same provider, model,
+ * system instructions, resolved prompt and generation parameters) share one entry.
+ */
+export class ResponseCacheService {
+  // Bump when the entry format changes so older entries are never read back
+  private static readonly KEY_PREFIX = 'resp2_';
+  private static readonly TTL_PROPERTY = 'RESPONSE_CACHE_TTL_SECONDS';
+
+  // Apps Script caps entries at 6 hours and 100KB per value
+  private static readonly DEFAULT_TTL_SECONDS = 6 * 60 * 60;
+  private static readonly MAX_TTL_SECONDS = 6 * 60 * 60;
+  private static readonly MAX_ENTRY_BYTES = 90 * 1024;
+
+  /**
+   * Hashes everything that affects a response into a cache key
+   */
+  static getKey(request: CompletionRequest): string {
+    const providerId = ProviderService.findProvider(request.model)?.provider.id || '';
+    const fields = Object.keys(request).sort().map(name => [name, request[name as keyof CompletionRequest] ?? '']);
+    const digest = Utilities.computeDigest(
+      Utilities.DigestAlgorithm.SHA_256,
+      JSON.stringify([providerId, fields]),
+      Utilities.Charset.UTF_8
+    );
+    return this.KEY_PREFIX + Utilities.base64EncodeWebSafe(digest);
+  }
+
+  /**
+   * Looks up several keys at once, returning only the ones that were cached
+   */
+  static getAll(keys: string[]): Record<string, CachedResponse> {
+    const cache = this.getCache();
+    if (!cache || !keys.length) return {};
+
+    const responses: Record<string, CachedResponse> = {};
+    Object.entries(cache.getAll(Array.from(new Set(keys)))).forEach(([key, json]) => {
+      try {
+        const parsed = JSON.parse(json);
+        if (parsed && typeof parsed.text === 'string') responses[key] = parsed;
+      } catch (error) {
+        // Unreadable entries count as a miss and get overwritten
+      }
+    });
+    return responses;
+  }
+
+  /**
+   * Stores responses, skipping any too large for a cache entry
+   */
+  static putAll(entries: Record<string, CachedResponse>): void {
+    const cache = this.getCache();
+    if (!cache) return;
+
+    const storable: Record<string, string> = {};
+    Object.entries(entries).forEach(([key, response]) => {
+      const json = JSON.stringify(response);
+      if (Utilities.newBlob(json).getBytes().length <= this.MAX_ENTRY_BYTES) {
+        storable[key] = json;
+      }
+    });
+
+    if (Object.keys(storable).length) {
+      try {
+        cache.putAll(storable, this.getTtlSeconds());
+      } catch (error) {
+        // A full cache shouldn't fail the run
+        console.error('Error writing response cache:', error);
+      }
+    }
+  }
+
+  /**
+   * Cache lifetime in seconds, configurable with the RESPONSE_CACHE_TTL_SECONDS script property
+   */
+  static getTtlSeconds(): number {
+    const configured = parseInt(PropertiesService.getScriptProperties().getProperty(this.TTL_PROPERTY) || '');
+    return configured > 0 ? Math.min(configured, this.MAX_TTL_SECONDS) : this.DEFAULT_TTL_SECONDS;
+  }
+
+  private static getCache(): GoogleAppsScript.Cache.Cache | null {
+    // Scope entries to the spreadsheet; fall back to the user cache outside a document
+    return CacheService.getDocumentCache() || CacheService.getUserCache();
+  }
+}
@@ -0,0 +1,237 @@
+import 'google-apps-script';
+import { ImageService } from './image.service';
+import { ProviderService } from './provider.service';
+
+/**
+ * Where an API key is stored:
+ * - personal: the user's own key (UserProperties), used only for their runs
+ * - organization: the shared key (ScriptProperties), used by everyone without a personal key
+ */
+export type KeyScope = 'personal' | 'organization';
+
+/**
+ * Anything that needs an API key: a model provider or a built-in service like Google search
+ */
+export interface KeyedService {
+  id: string;
+  name: string;
+  keyProperty: string;
+  keyOptional?: boolean;
+  // A cheap authenticated request that shows whether a key works
+  buildTestRequest?(apiKey: string): GoogleAppsScript.URL_Fetch.URLFetchRequest;
+}
+
+export interface KeyStatus {
+  id: string;
+  name: string;
+  keyProperty: string;
+  hasPersonalKey: boolean;
+  hasOrganizationKey: boolean;
+  // The key runs will use: personal wins over organization
+  activeScope: KeyScope | null;
+  // Last characters of the active key, e.g. "••••a1b2"
+  hint: string;
+  testable: boolean;
+}
+
+export interface KeySettings {
+  keys: KeyStatus[];
+  canManageOrganizationKeys: boolean;
+}
+
+export interface ConnectionResult {
+  success: boolean;
+  message: string;
+}
+
+export class SettingsService {
+  // Comma-separated emails of the people allowed to change organization keys from the sidebar
+  private static readonly KEY_ADMINS_PROPERTY = 'KEY_ADMINS';
+  private static readonly SEARCH_ENGINE_PROPERTY = 'GOOGLE_CSE_ID';
+  // The search engine prompt suggestions used before GOOGLE_CSE_ID could be set
+  private static readonly LEGACY_SEARCH_ENGINE_ID = 'f791de3ddf13c4413';
+  // Deprecated script properties still read when the current one isn't set, so existing
+  // installations keep working: API_KEY used to hold the OpenAI and Google search keys
+  private static readonly LEGACY_KEY_PROPERTIES: Record<string, string> = {
+    OPENAI_API_KEY: 'API_KEY',
+    GOOGLE_CSE_API_KEY: 'API_KEY'
+  };
+  private static readonly REDACTED = '[redacted]';
+  // Key-like strings that may show up in error messages even when they aren't ours
+  private static readonly KEY_PATTERNS = [
+    /\b(sk|pk|pplx|gsk|xai)-[A-Za-z0-9_-]{12,}/g,
+    /\bAIza[A-Za-z0-9_-]{20,}/g,
+    /([?&](?:key|api_key|apikey)=)[^&\s]+/gi,
+    /(Bearer\s+)[A-Za-z0-9._-]{12,}/g
+  ];
+
+  private static readonly GOOGLE_SEARCH: KeyedService = {
+    id: 'google-search',
+    name: 'Google search suggestions',
+    keyProperty: 'GOOGLE_CSE_API_KEY',
+    buildTestRequest: apiKey => ({
+      url: `https://www.googleapis.com/customsearch/v1?key=${apiKey}&cx=${encodeURIComponent(SettingsService.getSearchEngineId())}&q=test&num=1`,
+      muteHttpExceptions: true
+    })
+  };
+
+  /**
+   * Every service that takes an API key, in the order the settings panel shows them
+   */
+  static getKeyedServices(): KeyedService[] {
+    return [...ProviderService.getProviders(), ...ImageService.getProviders(), this.GOOGLE_SEARCH];
+  }
+
+  /**
+   * Gets the key to use for a property: the user's personal key, otherwise the organization key.
+   * Returns an empty string when neither is set.
+   */
+  static getKey(keyProperty: string): string {
+    return PropertiesService.getUserProperties().getProperty(keyProperty) ||
+      this.getOrganizationKey(keyProperty);
+  }
+
+  /**
+   * Shows which services have keys, without revealing the keys themselves
+   */
+  static getKeySettings(): KeySettings {
+    const userProperties = PropertiesService.getUserProperties();
+
+    const keys = this.getKeyedServices().map(service => {
+      const personal = userProperties.getProperty(service.keyProperty) || '';
+      const organization = this.getOrganizationKey(service.keyProperty);
+      const active = personal || organization;
+      return {
+        id: service.id,
+        name: service.name,
+        keyProperty: service.keyProperty,
+        hasPersonalKey: !!personal,
+        hasOrganizationKey: !!organization,
+        activeScope: personal ? 'personal' : organization ? 'organization' : null,
+        hint: active ? `••••${active.slice(-4)}` : '',
+        testable: !!service.buildTestRequest
+      } as KeyStatus;
+    });
+
+    return { keys, canManageOrganizationKeys: this.canManageOrganizationKeys() };
+  }
+
+  /**
+   * Saves a key. Organization keys can only be changed by the people listed in KEY_ADMINS;
+   * everyone else sets them in the script's Project Settings.
+   */
+  static saveKey(serviceId: string, key: string, scope: KeyScope): KeySettings {
+    const service = this.getService(serviceId);
+    const value = (key || '').trim();
+    if (!value) throw new Error('Enter a key');
+    if (/\s/.test(value)) throw new Error('Keys can\'t contain spaces');
+
+    this.getStore(scope).setProperty(service.keyProperty, value);
+    console.log(`Saved ${scope} key for ${service.name}`);
+    return this.getKeySettings();
+  }
+
+  static deleteKey(serviceId: string, scope: KeyScope): KeySettings {
+    const service = this.getService(serviceId);
+    this.getStore(scope).deleteProperty(service.keyProperty);
+    console.log(`Removed ${scope} key for ${service.name}`);
+    return this.getKeySettings();
+  }
+
+  /**
+   * Makes a small authenticated request with the key runs would use, to show whether it works
+   */
+  static testConnection(serviceId: string): ConnectionResult {
+    const service = this.getService(serviceId);
+    const key = this.getKey(service.keyProperty);
+    if (!key && !service.keyOptional) {
+      return { success: false, message: `No ${service.name} key is set` };
+    }
+    if (!service.buildTestRequest) {
+      return { success: false, message: `${service.name} keys can't be tested; the first run will show whether it works` };
+    }
+
+    const scope = PropertiesService.getUserProperties().getProperty(service.keyProperty) ? 'your key' : 'the organization key';
+    try {
+      const { url, ...params } = service.buildTestRequest(key);
+      const response = UrlFetchApp.fetch(url, { ...params, muteHttpExceptions: true });
+      const statusCode = response.getResponseCode();
+      if (statusCode < 300) {
+        return { success: true, message: `Connected to ${service.name} with ${scope}` };
+      }
+      if (statusCode === 401 || statusCode === 403) {
+        return { success: false, message: `${service.name} rejected ${scope} (HTTP ${statusCode})` };
+      }
+      return { success: false, message: `${service.name} returned HTTP ${statusCode}: ${this.redact(response.getContentText().slice(0, 200))}` };
+    } catch (error) {
+      const message = this.redact(error);
+      console.error(`Connection test for ${service.name} failed:`, message);
+      return { success: false, message };
+    }
+  }
+
+  /**
+   * ID of the Google Programmable Search Engine used for prompt suggestions. Installations that
+   * still use the old API_KEY property keep the engine that came with it.
+   */
+  static getSearchEngineId(): string {
+    const scriptProperties = PropertiesService.getScriptProperties();
+    const engineId = scriptProperties.getProperty(this.SEARCH_ENGINE_PROPERTY);
+    if (engineId) return engineId;
+    return scriptProperties.getProperty(this.LEGACY_KEY_PROPERTIES.GOOGLE_CSE_API_KEY) ? this.LEGACY_SEARCH_ENGINE_ID : '';
+  }
+
+  /**
+   * Turns an error or message into text that is safe to log: configured keys and anything
+   * that looks like a key are replaced
+   */
+  static redact(value: unknown): string {
+    let text = value instanceof Error ? value.message : typeof value === 'string' ? value : String(value);
+
+    const keyProperties = this.getKeyedServices().map(service => service.keyProperty)
+      .concat(Object.values(this.LEGACY_KEY_PROPERTIES));
+    [PropertiesService.getUserProperties(), PropertiesService.getScriptProperties()].forEach(store => {
+      keyProperties.forEach(property => {
+        const key = store.getProperty(property);
+        if (key && key.length >= 8) text = text.split(key).join(this.REDACTED);
+      });
+    });
+
+    return this.KEY_PATTERNS.reduce((result, pattern) => result.replace(pattern, (_match, prefix) =>
+      typeof prefix === 'string' && /[=\s]$/.test(prefix) ? prefix + this.REDACTED : this.REDACTED), text);
+  }
+
+  private static getOrganizationKey(keyProperty: string): string {
+    const scriptProperties = PropertiesService.getScriptProperties();
+    const legacyProperty = this.LEGACY_KEY_PROPERTIES[keyProperty];
+    return scriptProperties.getProperty(keyProperty) ||
+      (legacyProperty && scriptProperties.getProperty(legacyProperty)) ||
+      '';
+  }
+
+  private static canManageOrganizationKeys(): boolean {
+    const admins = (PropertiesService.getScriptProperties().getProperty(this.KEY_ADMINS_PROPERTY) || '')
+      .split(',')
+      .map(email => email.trim().toLowerCase())
+      .filter(Boolean);
+    const email = Session.getActiveUser().getEmail().toLowerCase();
+    return !!email && admins.includes(email);
+  }
+
+  private static getStore(scope: KeyScope): GoogleAppsScript.Properties.Properties {
+    if (scope === 'personal') return PropertiesService.getUserProperties();
+    if (scope === 'organization') {
+      if (!this.canManageOrganizationKeys()) {
+        throw new Error('Only key admins can change organization keys. Ask your admin, or use a personal key.');
+      }
+      return PropertiesService.getScriptProperties();
+    }
+    throw new Error(`Unknown key scope: ${scope}`);
+  }
+
+  private static getService(serviceId: string): KeyedService {
+    const service = this.getKeyedServices().find(item => item.id === serviceId);
+    if (!service) throw new Error(`Unknown service: ${serviceId}`);
+    return service;
+  }
+}
@@ -0,0 +1,393 @@
+import 'google-apps-script';
+import { ModelCatalogService } from './model-catalog.service';
+import { PostProcessService } from './post-process.service';
+import { PromptService } from './prompt.service';
+import { ProviderService, TokenUsage } from './provider.service';
+import { SpreadsheetService } from './spreadsheet.service';
+import { UsageService } from './usage.service';
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  // Rows an answer refers to, e.g. [Row 12]
+  rows?: number[];
+  createdAt: string;
+}
+
+/**
+ * A conversation about one sheet or range. Each user keeps one conversation per spreadsheet.
+ */
+export interface ChatSession {
+  id: string;
+  sheet: string;
+  // A1 notation of the range the questions are about; the whole sheet when missing
+  range?: string;
+  model: string;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatOptions {
+  sheet: string;
+  // A1 notation, a named range or "selection"; the sheet's data when empty
+  range?: string;
+  model?: string;
+  // Start over instead of continuing the current conversation
+  newConversation?: boolean;
+}
+
+export interface ChatAnswer {
+  success: boolean;
+  message?: string;
+  session?: ChatSession;
+  answer?: string;
+  rows?: number[];
+  // How many rows the model saw, out of all rows in the sheet or range
+  rowsShown?: number;
+  totalRows?: number;
+  usage?: TokenUsage;
+  cost?: number;
+}
+
+export interface ChatExportResult {
+  success: boolean;
+  message: string;
+  sheet?: string;
+}
+
+/**
+ * The rows given to the model as text, with the row numbers they came from
+ */
+interface SheetContext {
+  sheet: string;
+  text: string;
+  rows: number[];
+  totalRows: number;
+  notation: string;
+}
+
+export class SheetChatService {
+  private static readonly SESSION_PREFIX = 'sheetChat_';
+  private static readonly MAX_RECORD_BYTES = 8000;
+  private static readonly MAX_STORED_MESSAGE_LENGTH = 3000;
+  // Earlier turns sent along with a question
+  private static readonly MAX_HISTORY_MESSAGES = 6;
+
+  private static readonly CHARS_PER_TOKEN = 4;
+  // Keeps a question's cost down even on models with very large context windows
+  private static readonly MAX_CONTEXT_TOKENS = 30000;
+  private static readonly DEFAULT_CONTEXT_WINDOW = 16000;
+  private static readonly OUTPUT_TOKENS = 1500;
+  private static readonly MAX_CELL_LENGTH = 300;
+
+  private static readonly INSTRUCTIONS = [
+    'You answer questions about spreadsheet data. Use only the rows provided.',
+    'Cite the rows behind every fact by their row number, like [Row 12] or [Rows 4, 9].',
+    'If only a sample of the rows is shown, say that the answer is based on a sample.',
+    'If the rows don\'t answer the question, say so instead of guessing.',
+    'Give lists and comparisons as a markdown table.'
+  ].join(' ');
+
+  /**
+   * Answers a question about a sheet or range, continuing the current conversation unless it
+   * was about other data. Rows that don't all fit in the model's context are sampled, with rows
+   * mentioning the question's words first.
+   */
+  static ask(question: string, options: ChatOptions): ChatAnswer {
+    try {
+      const text = (question || '').trim();
+      if (!text) return { success: false, message: 'Ask a question about the sheet' };
+      if (!options?.sheet && !options?.range?.trim()) return { success: false, message: 'Choose a sheet to ask about' };
+
+      const model = options.model || ModelCatalogService.getDefaultModel('language');
+      ProviderService.resolve(model);
+
+      const context = this.buildContext(options, text, model);
+      const session = this.getSessionFor(context, model, !!options.newConversation);
+      const prompt = this.buildPrompt(context, session.messages, text);
+
+      const budgetReason = UsageService.checkBudget(0, UsageService.getCost(model, {
+        inputTokens: Math.ceil((prompt.length + this.INSTRUCTIONS.length) / this.CHARS_PER_TOKEN),
+        outputTokens: this.OUTPUT_TOKENS
+      }));
+      if (budgetReason) return { success: false, message: budgetReason };
+
+      const [outcome] = PromptService.dispatchWithCache([{
+        model,
+        prompt,
+        systemInstructions: this.INSTRUCTIONS,
+        params: { maxOutputTokens: this.OUTPUT_TOKENS }
+      }], false);
+      if (!outcome.success) {
+        return { success: false, message: outcome.error || 'The model didn\'t answer' };
+      }
+
+      const usage = outcome.usage || { inputTokens: 0, outputTokens: 0 };
+      const cost = UsageService.getCost(model, usage);
+      UsageService.recordSpend(cost);
+
+      const answer = (outcome.value || '').trim();
+      const shown = new Set(context.rows);
+      const rows = this.findCitedRows(answer).filter(row => shown.has(row));
+      const now = new Date().toISOString();
+      session.messages.push(
+        { role: 'user', content: text, createdAt: now },
+        { role: 'assistant', content: answer, rows, createdAt: now }
+      );
+      session.updatedAt = now;
+      this.saveSession(session);
+
+      return {
+        success: true,
+        session,
+        answer,
+        rows,
+        rowsShown: context.rows.length,
+        totalRows: context.totalRows,
+        usage,
+        cost
+      };
+    } catch (error) {
+      console.error('Error answering sheet question:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * The user's current conversation in this spreadsheet, if any
+   */
+  static getSession(): ChatSession | null {
+    const json = PropertiesService.getUserProperties().getProperty(this.getSessionKey());
+    return json ? JSON.parse(json) : null;
+  }
+
+  static clearSession(): void {
+    PropertiesService.getUserProperties().deleteProperty(this.getSessionKey());
+  }
+
+  /**
+   * Writes an answer to a new sheet: the question, then the answer with any markdown table
+   * split into cells, then the rows it cites
+   */
+  static writeAnswerToSheet(messageIndex: number): ChatExportResult {
+    const session = this.getSession();
+    const message = session?.messages[messageIndex];
+    if (!session || !message || message.role !== 'assistant') {
+      return { success: false, message: 'That answer is no longer available' };
+    }
+    const question = session.messages[messageIndex - 1]?.content || '';
+
+    const cells: string[][] = [[question], ['']];
+    // Tables get one cell per column and a blank row after them; other lines go in column A
+    let table: string[] = [];
+    message.content.split('\n').forEach(line => {
+      const trimmed = line.trim();
+      if (PostProcessService.isTableRow(trimmed)) {
+        table.push(trimmed);
+        return;
+      }
+      if (table.length) {
+        cells.push(...PostProcessService.parseTable(table.join('\n')), ['']);
+        table = [];
+      }
+      if (trimmed) cells.push([PostProcessService.stripMarkdown(trimmed)]);
+    });
+    if (table.length) cells.push(...PostProcessService.parseTable(table.join('\n')));
+    if (message.rows?.length) {
+      cells.push([''], [`Rows used: ${SpreadsheetService.formatRowList(message.rows)}`]);
+    }
+
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    const width = Math.max(...cells.map(row => row.length));
+    const baseName = `Answer ${Utilities.formatDate(new Date(), spreadsheet.getSpreadsheetTimeZone(), 'yyyy-MM-dd HH:mm')}`;
+    let name = baseName;
+    for (let copy = 2; spreadsheet.getSheetByName(name); copy++) {
+      name = `${baseName} (${copy})`;
+    }
+
+    const sheet = spreadsheet.insertSheet(name);
+    // Plain text, so answers like "1/2" or "=5" aren't read as dates or formulas
+    sheet.getRange(1, 1, cells.length, width)
+      .setNumberFormat('@')
+      .setValues(cells.map(row => row.concat(new Array(width - row.length).fill(''))));
+    sheet.getRange(1, 1).setFontWeight('bold');
+
+    return { success: true, message: `Wrote the answer to the sheet "${name}"`, sheet: name };
+  }
+
+  /**
+   * Reads the sheet or range and turns as many rows as fit into a tab-separated table
+   */
+  private static buildContext(options: ChatOptions, question: string, model: string): SheetContext {
+    let sheetName = options.sheet;
+    let columns: string[];
+    let rows: number[];
+    let notation: string;
+
+    if (options.range?.trim()) {
+      const range = SpreadsheetService.resolveRange(options.range, options.sheet);
+      sheetName = range.sheet;
+      columns = range.columns;
+      rows = range.rows;
+      notation = range.notation;
+    } else {
+      const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+      if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+      columns = SpreadsheetService.getColumnLetters(sheetName);
+      rows = SpreadsheetService.getRowNumbers(sheetName, 'auto', 'all');
+      notation = `'${sheetName.replace(/'/g, "''")}'`;
+    }
+    if (!rows.length || !columns.length) throw new Error(`No data found in ${notation}`);
+
+    const headers = SpreadsheetService.getColumnHeaders(sheetName, SpreadsheetService.getHeaderRow(sheetName));
+    const headerLine = ['Row', ...columns.map(column => headers.get(column) ? `${column}: ${this.toCell(headers.get(column)!)}` : column)].join('\t');
+    const lines = SpreadsheetService.getRowsByNumbers(sheetName, columns, rows)
+      .map((record, index) => [String(rows[index]), ...columns.map(column => this.toCell(record[column]))].join('\t'));
+
+    // Room left for the data once the instructions, history, question and answer are accounted for
+    const contextWindow = ModelCatalogService.findModel(model)?.contextWindow || this.DEFAULT_CONTEXT_WINDOW;
+    const reserved = this.OUTPUT_TOKENS + Math.ceil((this.INSTRUCTIONS.length + question.length) / this.CHARS_PER_TOKEN) +
+      this.MAX_HISTORY_MESSAGES * Math.ceil(this.MAX_STORED_MESSAGE_LENGTH / this.CHARS_PER_TOKEN);
+    const budget = (Math.min(contextWindow, this.MAX_CONTEXT_TOKENS) - reserved) * this.CHARS_PER_TOKEN - headerLine.length;
+    if (budget <= 0) throw new Error(`${model} doesn't have room for sheet data`);
+
+    const picked = this.pickRows(lines, question, budget);
+    return {
+      sheet: sheetName,
+      text: [headerLine, ...picked.map(index => lines[index])].join('\n'),
+      rows: picked.map(index => rows[index]),
+      totalRows: rows.length,
+      notation
+    };
+  }
+
+  /**
+   * Picks the lines to show within a character budget: all of them when they fit, otherwise
+   * lines containing the question's words first (up to half the budget), then an even sample.
+   * Returns line indexes in sheet order.
+   */
+  private static pickRows(lines: string[], question: string, budget: number): number[] {
+    const total = lines.reduce((sum, line) => sum + line.length + 1, 0);
+    if (total <= budget) return lines.map((_, index) => index);
+
+    const picked = new Set<number>();
+    let used = 0;
+    const take = (index: number, limit: number) => {
+      if (picked.has(index) || used + lines[index].length + 1 > limit) return;
+      picked.add(index);
+      used += lines[index].length + 1;
+    };
+
+    const words = Array.from(new Set(question.toLowerCase().match(/[\p{L}\p{N}]{4,}/gu) || []));
+    if (words.length) {
+      lines.forEach((line, index) => {
+        const lower = line.toLowerCase();
+        if (words.some(word => lower.includes(word))) take(index, budget / 2);
+      });
+    }
+
+    const averageLength = total / lines.length;
+    const step = Math.max(1, lines.length / Math.max(1, (budget - used) / averageLength));
+    for (let position = 0; position < lines.length; position += step) {
+      take(Math.floor(position), budget);
+    }
+    return Array.from(picked).sort((a, b) => a - b);
+  }
+
+  private static buildPrompt(context: SheetContext, history: ChatMessage[], question: string): string {
+    const sampled = context.rows.length < context.totalRows;
+    const parts = [
+      `Data from ${context.notation}, ${sampled ? `a sample of ${context.rows.length} of ${context.totalRows}` : `all ${context.totalRows}`} rows ` +
+      '(tab-separated, the first column is the row number):',
+      context.text
+    ];
+
+    const earlier = history.slice(-this.MAX_HISTORY_MESSAGES);
+    if (earlier.length) {
+      parts.push('Conversation so far:', earlier.map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`).join('\n\n'));
+    }
+    parts.push(`Question: ${question}`);
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Reads row numbers from citations like [Row 12], [Rows 4, 9] or rows 3-5
+   */
+  private static findCitedRows(answer: string): number[] {
+    const rows = new Set<number>();
+    const citations = answer.match(/\brows?\s+\d+(?:\s*(?:,|-|–|to|and|&)\s*\d+)*/gi) || [];
+    citations.forEach(citation => {
+      const list = citation
+        .replace(/^rows?\s+/i, '')
+        .replace(/\s*(?:–|to)\s*/gi, '-')
+        .replace(/\s*(?:and|&)\s*/gi, ',')
+        .replace(/\s+/g, '');
+      SpreadsheetService.parseRowList(list).forEach(row => rows.add(row));
+    });
+    return Array.from(rows).sort((a, b) => a - b);
+  }
+
+  /**
+   * Continues the current conversation when it's about the same data and model, otherwise starts one
+   */
+  private static getSessionFor(context: SheetContext, model: string, newConversation: boolean): ChatSession {
+    const current = newConversation ? null : this.getSession();
+    if (current && current.range === context.notation && current.model === model) return current;
+
+    const now = new Date().toISOString();
+    return {
+      id: Utilities.getUuid(),
+      sheet: context.sheet,
+      range: context.notation,
+      model,
+      messages: [],
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Saves the conversation, shortening long messages and dropping the oldest turns to fit.
+   * The last question and answer are shortened further if they still don't fit; an answer is
+   * never lost because its conversation couldn't be saved.
+   */
+  private static saveSession(session: ChatSession): void {
+    const shorten = (maxLength: number) => {
+      session.messages = session.messages.map(message => ({
+        ...message,
+        content: message.content.length > maxLength ? `${message.content.slice(0, maxLength - 1)}…` : message.content
+      }));
+    };
+    // Properties are limited in bytes, and non-Latin text takes several bytes a character
+    const size = () => Utilities.newBlob(JSON.stringify(session)).getBytes().length;
+
+    let maxLength = this.MAX_STORED_MESSAGE_LENGTH;
+    shorten(maxLength);
+    while (size() > this.MAX_RECORD_BYTES && session.messages.length > 2) {
+      session.messages.splice(0, 2);
+    }
+    while (size() > this.MAX_RECORD_BYTES && maxLength > 100) {
+      maxLength = Math.floor(maxLength / 2);
+      shorten(maxLength);
+    }
+
+    try {
+      PropertiesService.getUserProperties().setProperty(this.getSessionKey(), JSON.stringify(session));
+    } catch (error) {
+      console.error('Could not save the conversation:', error);
+    }
+  }
+
+  private static getSessionKey(): string {
+    return this.SESSION_PREFIX + SpreadsheetApp.getActiveSpreadsheet().getId();
+  }
+
+  private static toCell(value: string): string {
+    const text = (value || '').replace(/\s+/g, ' ').trim();
+    return text.length > this.MAX_CELL_LENGTH ? `${text.slice(0, this.MAX_CELL_LENGTH - 1)}…` : text;
+  }
+}
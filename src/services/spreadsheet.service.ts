@@ -1,16 +1,42 @@
 import 'google-apps-script';
 
-interface SpreadsheetRange {
-  sheet: string;
+export interface CellWrite {
+  row: number;
   column: string;
-  startRow: number | 'auto';
-  rowCount: number | 'all';
+  value: string;
+  note?: string;
+}
+
+/**
+ * What a cell can be written with. Text may still be converted by Sheets, e.g. "TRUE".
+ */
+export type CellValue = string | number | boolean | Date;
+
+/**
+ * One row's values for a fixed list of columns, aligned by index
+ */
+export interface RowWrite {
+  row: number;
+  values: CellValue[];
+  notes?: string[];
+}
+
+/**
+ * A range reference resolved to its sheet, column letters and row numbers
+ */
+export interface ResolvedRange {
+  sheet: string;
+  columns: string[];
+  rows: number[];
+  // First row of the (first) range, even if the sheet has no data there yet
+  firstRow: number;
+  // A1 notation of the first range, including the sheet name
+  notation: string;
 }
 
 interface ProcessingResult {
   success: boolean;
   message?: string;
-  data?: any[];
 }
 
 export class SpreadsheetService {
@@ -37,108 +63,207 @@ export class SpreadsheetService {
   }
 
   /**
-   * Gets data from a specific range
+   * Resolves a start row and row count to the row numbers that exist in the sheet
    */
-  static getDataFromRange(range: SpreadsheetRange): string[] {
-    try {
-      const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
-      const sheet = spreadsheet.getSheetByName(range.sheet);
-      if (!sheet) throw new Error(`Sheet ${range.sheet} not found`);
+  static getRowNumbers(sheetName: string, startRow: number | 'auto', rowCount: number | 'all'): number[] {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
 
-      // Get the header row value
-      const headerRow = this.getHeaderRow(range.sheet);
-      
-      // If in auto mode, start from header row + 1
-      const effectiveStartRow = range.startRow === 'auto' ? headerRow + 1 : range.startRow;
-
-      // Calculate the actual number of rows to process
-      const lastRow = sheet.getLastRow();
-      const availableRows = lastRow - effectiveStartRow + 1;
-      const effectiveRowCount = range.rowCount === 'all' 
-        ? availableRows 
-        : Math.min(range.rowCount as number, availableRows);
-
-      // Get the column data
-      const columnIndex = this.letterToColumn(range.column);
-      const rangeA1 = sheet.getRange(
-        effectiveStartRow,
-        columnIndex,
-        effectiveRowCount,
-        1
-      );
+    const effectiveStartRow = startRow === 'auto' ? this.getHeaderRow(sheetName) + 1 : startRow;
+    const availableRows = sheet.getLastRow() - effectiveStartRow + 1;
+    const effectiveRowCount = rowCount === 'all' ? availableRows : Math.min(rowCount, availableRows);
 
-      return rangeA1.getValues().map(row => row[0]?.toString() || '');
-    } catch (error: unknown) {
-      console.error('Error getting data from range:', error);
-      return [];
+    return Array.from({ length: Math.max(0, effectiveRowCount) }, (_, i) => effectiveStartRow + i);
+  }
+
+  /**
+   * Gets data from several columns for specific (possibly non-contiguous) rows.
+   * Results are returned in the same order as the requested rows.
+   */
+  static getRowsByNumbers(sheetName: string, columns: string[], rows: number[]): Record<string, string>[] {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+    if (!rows.length || !columns.length) return [];
+
+    // Read the block spanning all requested rows and columns in one call
+    const firstRow = Math.min(...rows);
+    const lastRow = Math.max(...rows);
+    const columnIndexes = columns.map(column => this.letterToColumn(column.toUpperCase()));
+    const firstColumn = Math.min(...columnIndexes);
+    const lastColumn = Math.max(...columnIndexes);
+    const values = sheet.getRange(firstRow, firstColumn, lastRow - firstRow + 1, lastColumn - firstColumn + 1).getValues();
+
+    return rows.map(row => {
+      const record: Record<string, string> = {};
+      columns.forEach((column, i) => {
+        record[column.toUpperCase()] = values[row - firstRow][columnIndexes[i] - firstColumn]?.toString() || '';
+      });
+      return record;
+    });
+  }
+
+  /**
+   * Resolves a range reference: A1 notation ("B2:B50", "Data!B2:D"), a named range, or
+   * "selection" for the user's current selection (which may span several ranges).
+   * Rows run to the sheet's last row at most; whole columns start below the header row.
+   */
+  static resolveRange(reference: string, defaultSheet?: string): ResolvedRange {
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    const text = reference.trim();
+
+    let ranges: GoogleAppsScript.Spreadsheet.Range[];
+    if (text.toLowerCase() === 'selection') {
+      const selection = spreadsheet.getActiveRangeList();
+      ranges = selection ? selection.getRanges() : [];
+      if (!ranges.length) throw new Error('Select the cells to process first');
+    } else {
+      // Named ranges can look like A1 references ("Tax", "Q1"), so they're looked up first
+      const named = /^[A-Za-z_][\w.]*$/.test(text) ? spreadsheet.getRangeByName(text) : null;
+      if (named) {
+        ranges = [named];
+      } else if (text.includes('!') || !defaultSheet) {
+        ranges = [spreadsheet.getRange(text)];
+      } else {
+        const sheet = spreadsheet.getSheetByName(defaultSheet);
+        if (!sheet) throw new Error(`Sheet ${defaultSheet} not found`);
+        ranges = [sheet.getRange(text)];
+      }
     }
+
+    const sheet = ranges[0].getSheet();
+    if (ranges.some(range => range.getSheet().getSheetId() !== sheet.getSheetId())) {
+      throw new Error('All selected ranges must be on the same sheet');
+    }
+
+    const lastRow = sheet.getLastRow();
+    const headerRow = this.getHeaderRow(sheet.getName());
+    const rows = new Set<number>();
+    ranges.forEach(range => {
+      const wholeColumn = range.getRow() === 1 && range.getLastRow() === sheet.getMaxRows();
+      const firstRow = wholeColumn ? headerRow + 1 : range.getRow();
+      for (let row = firstRow; row <= Math.min(range.getLastRow(), lastRow); row++) {
+        rows.add(row);
+      }
+    });
+
+    const first = ranges[0];
+    const firstIsWholeColumn = first.getRow() === 1 && first.getLastRow() === sheet.getMaxRows();
+    return {
+      sheet: sheet.getName(),
+      columns: Array.from({ length: first.getNumColumns() }, (_, i) => this.columnToLetter(first.getColumn() + i)),
+      rows: Array.from(rows).sort((a, b) => a - b),
+      firstRow: firstIsWholeColumn ? headerRow + 1 : first.getRow(),
+      notation: `'${sheet.getName().replace(/'/g, "''")}'!${first.getA1Notation()}`
+    };
   }
 
   /**
-   * Gets the header row number from sheet properties or defaults to 1
+   * Keeps only the rows that aren't hidden by a filter or by the user. The row metadata for
+   * the whole span comes from one Sheets API request rather than two calls per row.
    */
-  private static getHeaderRow(sheetName: string): number {
-    try {
-      const userProperties = PropertiesService.getUserProperties();
-      const headerRowProp = userProperties.getProperty(`${sheetName}_headerRow`);
-      return headerRowProp ? parseInt(headerRowProp) : 1;
-    } catch (error) {
-      console.error('Error getting header row:', error);
-      return 1;
+  static filterVisibleRows(sheetName: string, rows: number[]): number[] {
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    const sheet = spreadsheet.getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+    if (!rows.length) return rows;
+
+    const firstRow = rows.reduce((min, row) => Math.min(min, row), rows[0]);
+    const lastRow = rows.reduce((max, row) => Math.max(max, row), rows[0]);
+    const range = `'${sheetName.replace(/'/g, "''")}'!A${firstRow}:A${lastRow}`;
+    const response = UrlFetchApp.fetch(
+      `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheet.getId()}?ranges=${encodeURIComponent(range)}` +
+        '&fields=sheets.data(startRow,rowMetadata(hiddenByFilter,hiddenByUser))',
+      { headers: { Authorization: `Bearer ${ScriptApp.getOAuthToken()}` }, muteHttpExceptions: true }
+    );
+    if (response.getResponseCode() !== 200) {
+      console.error('Error reading row visibility, checking rows one by one:', response.getContentText());
+      return rows.filter(row => !sheet.isRowHiddenByFilter(row) && !sheet.isRowHiddenByUser(row));
     }
+
+    const data = JSON.parse(response.getContentText()).sheets?.[0]?.data?.[0];
+    const metadata: Array<{ hiddenByFilter?: boolean; hiddenByUser?: boolean }> = data?.rowMetadata || [];
+    // startRow is zero-based and left out when it's 0
+    const startRow = (data?.startRow || 0) + 1;
+    return rows.filter(row => {
+      const rowMetadata = metadata[row - startRow];
+      return !rowMetadata?.hiddenByFilter && !rowMetadata?.hiddenByUser;
+    });
   }
 
   /**
-   * Sets the header row number for a sheet
+   * Writes individual cells, batching contiguous rows in the same column into one call.
+   * Cells with a note also get their note set (an empty note clears it).
    */
-  static setHeaderRow(sheetName: string, headerRow: number): void {
+  static writeCells(sheetName: string, cells: CellWrite[]): ProcessingResult {
     try {
-      const userProperties = PropertiesService.getUserProperties();
-      userProperties.setProperty(`${sheetName}_headerRow`, headerRow.toString());
-    } catch (error) {
-      console.error('Error setting header row:', error);
+      const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+      if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+
+      this.groupContiguousCells(cells).forEach(run => {
+        const range = sheet.getRange(run[0].row, this.letterToColumn(run[0].column.toUpperCase()), run.length, 1);
+        range.setValues(run.map(cell => [cell.value]));
+
+        if (run.some(cell => cell.note !== undefined)) {
+          const notes = range.getNotes();
+          range.setNotes(run.map((cell, i) => [cell.note !== undefined ? cell.note : notes[i][0]]));
+        }
+      });
+
+      return {
+        success: true,
+        message: `Successfully wrote ${cells.length} cells`
+      };
+    } catch (error: unknown) {
+      console.error('Error writing cells:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
     }
   }
 
   /**
-   * Writes data to a specific range
+   * Writes several columns per row. Adjacent columns and contiguous rows are written
+   * together as one rectangle, so a row's fields land in a single call.
+   * Notes are set for every cell of a block when any row in it has notes.
    */
-  static writeDataToRange(range: SpreadsheetRange, data: string[]): ProcessingResult {
+  static writeRows(sheetName: string, columns: string[], rows: RowWrite[]): ProcessingResult {
     try {
-      const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
-      const sheet = spreadsheet.getSheetByName(range.sheet);
-      if (!sheet) throw new Error(`Sheet ${range.sheet} not found`);
+      const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+      if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
 
-      // Get the header row value
-      const headerRow = this.getHeaderRow(range.sheet);
-      
-      // If in auto mode, start from header row + 1
-      const effectiveStartRow = range.startRow === 'auto' ? headerRow + 1 : range.startRow;
-
-      // Calculate the actual number of rows to process
-      const lastRow = sheet.getLastRow();
-      const availableRows = lastRow - effectiveStartRow + 1;
-      const effectiveRowCount = range.rowCount === 'all' 
-        ? availableRows 
-        : Math.min(range.rowCount as number, availableRows);
-
-      const columnIndex = this.letterToColumn(range.column);
-      const rangeA1 = sheet.getRange(
-        effectiveStartRow,
-        columnIndex,
-        Math.min(effectiveRowCount, data.length),
-        1
-      );
+      // Split the columns into runs of adjacent columns, remembering each one's index in the row
+      const columnRuns: { start: number; indexes: number[] }[] = [];
+      columns
+        .map((column, index) => ({ number: this.letterToColumn(column.toUpperCase()), index }))
+        .sort((a, b) => a.number - b.number)
+        .forEach(({ number, index }) => {
+          const run = columnRuns[columnRuns.length - 1];
+          if (run && run.start + run.indexes.length === number) {
+            run.indexes.push(index);
+          } else {
+            columnRuns.push({ start: number, indexes: [index] });
+          }
+        });
+
+      const rowBlocks = this.groupContiguousRows(rows);
+      columnRuns.forEach(columnRun => {
+        rowBlocks.forEach(block => {
+          const range = sheet.getRange(block[0].row, columnRun.start, block.length, columnRun.indexes.length);
+          range.setValues(block.map(row => columnRun.indexes.map(index => row.values[index])));
 
-      const values = data.slice(0, effectiveRowCount).map(value => [value]);
-      rangeA1.setValues(values);
+          if (block.some(row => row.notes)) {
+            range.setNotes(block.map(row => columnRun.indexes.map(index => row.notes?.[index] || '')));
+          }
+        });
+      });
 
       return {
         success: true,
-        message: `Successfully wrote ${values.length} rows of data`
+        message: `Successfully wrote ${rows.length} rows`
       };
     } catch (error: unknown) {
-      console.error('Error writing data to range:', error);
+      console.error('Error writing rows:', error);
       return {
         success: false,
         message: error instanceof Error ? error.message : 'Unknown error occurred'
@@ -146,6 +271,115 @@ export class SpreadsheetService {
     }
   }
 
+  /**
+   * Gets a hidden sheet used for add-on bookkeeping, creating it with a header row if needed
+   */
+  static getOrCreateHiddenSheet(name: string, headers: string[]): GoogleAppsScript.Spreadsheet.Sheet {
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    let sheet = spreadsheet.getSheetByName(name);
+    if (!sheet) {
+      sheet = spreadsheet.insertSheet(name);
+      sheet.appendRow(headers);
+      sheet.setFrozenRows(1);
+      sheet.hideSheet();
+    }
+    return sheet;
+  }
+
+  /**
+   * Formats row numbers as compact ranges (e.g. [2, 3, 4, 9] -> '2-4,9')
+   */
+  static formatRowList(rows: number[]): string {
+    const sorted = Array.from(new Set(rows)).sort((a, b) => a - b);
+    const parts: string[] = [];
+    let start = sorted[0];
+    let previous = sorted[0];
+
+    for (let i = 1; i <= sorted.length; i++) {
+      const row = sorted[i];
+      if (row === previous + 1) {
+        previous = row;
+        continue;
+      }
+      parts.push(start === previous ? `${start}` : `${start}-${previous}`);
+      start = row;
+      previous = row;
+    }
+
+    return sorted.length ? parts.join(',') : '';
+  }
+
+  /**
+   * Parses row ranges written by formatRowList (e.g. '2-4,9' -> [2, 3, 4, 9])
+   */
+  static parseRowList(text: string): number[] {
+    const rows: number[] = [];
+    (text || '').split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+      const [from, to] = part.split('-').map(value => parseInt(value));
+      for (let row = from; row <= (isNaN(to) ? from : to); row++) {
+        rows.push(row);
+      }
+    });
+    return rows;
+  }
+
+  private static groupContiguousCells(cells: CellWrite[]): CellWrite[][] {
+    const sorted = [...cells].sort((a, b) =>
+      a.column.toUpperCase().localeCompare(b.column.toUpperCase()) || a.row - b.row
+    );
+
+    const runs: CellWrite[][] = [];
+    sorted.forEach(cell => {
+      const run = runs[runs.length - 1];
+      const last = run?.[run.length - 1];
+      if (last && last.column.toUpperCase() === cell.column.toUpperCase() && last.row + 1 === cell.row) {
+        run.push(cell);
+      } else {
+        runs.push([cell]);
+      }
+    });
+    return runs;
+  }
+
+  private static groupContiguousRows(rows: RowWrite[]): RowWrite[][] {
+    const blocks: RowWrite[][] = [];
+    [...rows].sort((a, b) => a.row - b.row).forEach(row => {
+      const block = blocks[blocks.length - 1];
+      if (block && block[block.length - 1].row + 1 === row.row) {
+        block.push(row);
+      } else {
+        blocks.push([row]);
+      }
+    });
+    return blocks;
+  }
+
+  /**
+   * Gets the header row number from sheet properties or defaults to 1
+   */
+  static getHeaderRow(sheetName: string): number {
+    try {
+      const userProperties = PropertiesService.getUserProperties();
+      const headerRowProp = userProperties.getProperty(`${sheetName}_headerRow`);
+      return headerRowProp ? parseInt(headerRowProp) : 1;
+    } catch (error) {
+      console.error('Error getting header row:', error);
+      return 1;
+    }
+  }
+
+  /**
+   * Sets the header row number for a sheet
+   */
+  static setHeaderRow(sheetName: string, headerRow: number): void {
+    try {
+      const userProperties = PropertiesService.getUserProperties();
+      userProperties.setProperty(`${sheetName}_headerRow`, headerRow.toString());
+    } catch (error) {
+      console.error('Error setting header row:', error);
+    }
+  }
+
   /**
    * Gets column headers from a specific sheet
    */
@@ -171,13 +405,14 @@ export class SpreadsheetService {
   }
 
   /**
-   * Converts column letter to number (e.g., 'A' -> 1, 'B' -> 2)
+   * Converts column letter to number (e.g., 'A' -> 1, 'b' -> 2)
    */
-  private static letterToColumn(letter: string): number {
+  static letterToColumn(letter: string): number {
+    const upper = letter.trim().toUpperCase();
     let column = 0;
-    const length = letter.length;
+    const length = upper.length;
     for (let i = 0; i < length; i++) {
-      column += (letter.charCodeAt(i) - 64) * Math.pow(26, length - i - 1);
+      column += (upper.charCodeAt(i) - 64) * Math.pow(26, length - i - 1);
     }
     return column;
   }
@@ -185,7 +420,7 @@ export class SpreadsheetService {
   /**
    * Converts column number to letter (e.g., 1 -> 'A', 2 -> 'B')
    */
-  private static columnToLetter(column: number): string {
+  static columnToLetter(column: number): string {
     let temp = column;
     let letter = '';
     while (temp > 0) {
@@ -0,0 +1,72 @@
+interface VariableMapping {
+  columns: Record<string, string>;
+  unknown: string[];
+}
+
+export class TemplateService {
+  private static readonly VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+  /**
+   * Returns the unique variable names used in a template (e.g. 'Hello {{name}}' -> ['name'])
+   */
+  static extractVariables(template: string): string[] {
+    const names = new Set<string>();
+    for (const match of (template || '').matchAll(this.VARIABLE_PATTERN)) {
+      names.add(match[1]);
+    }
+    return Array.from(names);
+  }
+
+  /**
+   * Checks whether a template contains any {{variable}} placeholders
+   */
+  static hasVariables(template: string): boolean {
+    return this.extractVariables(template).length > 0;
+  }
+
+  /**
+   * Maps template variables to column letters using the sheet's header row.
+   * Header names match case-insensitively and take priority over column letters.
+   */
+  static mapVariablesToColumns(variables: string[], headers: Map<string, string>): VariableMapping {
+    const headerLookup = new Map<string, string>();
+    headers.forEach((header, letter) => {
+      const key = header.trim().toLowerCase();
+      if (key && !headerLookup.has(key)) {
+        headerLookup.set(key, letter);
+      }
+    });
+
+    const columns: Record<string, string> = {};
+    const unknown: string[] = [];
+
+    variables.forEach(variable => {
+      const byHeader = headerLookup.get(variable.trim().toLowerCase());
+      if (byHeader) {
+        columns[variable] = byHeader;
+        return;
+      }
+
+      // Fall back to column letters ({{A}}, {{c}}) for columns that exist in the sheet
+      const letter = variable.trim().toUpperCase();
+      if (/^[A-Z]{1,3}$/.test(letter) && headers.has(letter)) {
+        columns[variable] = letter;
+        return;
+      }
+
+      unknown.push(variable);
+    });
+
+    return { columns, unknown };
+  }
+
+  /**
+   * Replaces {{variable}} placeholders with the given values.
+   * Placeholders without a value are left untouched.
+   */
+  static render(template: string, values: Record<string, string>): string {
+    return (template || '').replace(this.VARIABLE_PATTERN, (token, name: string) =>
+      Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token
+    );
+  }
+}
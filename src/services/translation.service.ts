@@ -0,0 +1,163 @@
+import 'google-apps-script';
+import { SpreadsheetService } from './spreadsheet.service';
+
+export interface TranslationTarget {
+  language: string;
+  column: string;
+}
+
+/**
+ * A glossary term with its preferred translation per language.
+ * Languages without a translation keep the term as-is (do not translate).
+ */
+export interface GlossaryEntry {
+  term: string;
+  translations: Record<string, string>;
+}
+
+export interface ProtectedText {
+  text: string;
+  tokens: string[];
+}
+
+export interface TranslationAnswer {
+  translation: string;
+  sourceLanguage: string;
+  error?: string;
+}
+
+export class TranslationService {
+  private static readonly TARGET_PATTERN = /^(.+?)\s*(?:@\s*([A-Za-z]{1,3}))?$/;
+
+  // Placeholders and markup that must survive translation untouched
+  private static readonly PROTECTED_PATTERN =
+    /<\/?[A-Za-z][^>]*>|\{\{[^{}]*\}\}|\$\{[^{}]*\}|\{[\w.]*\}|%(?:\d+\$)?[sdif@]|&[A-Za-z]+;|&#\d+;|https?:\/\/\S+/g;
+
+  /**
+   * Parses target languages such as "German, French@F, Portuguese (Brazil)". Languages without
+   * an explicit @column fill the columns to the right of the first output column.
+   */
+  static parseTargets(spec: string, firstColumn: string): TranslationTarget[] {
+    const entries = spec.split(/[,\n]/).map(entry => entry.trim()).filter(Boolean);
+    if (!entries.length) {
+      throw new Error('List at least one target language');
+    }
+
+    let nextColumn = SpreadsheetService.letterToColumn(firstColumn.toUpperCase());
+    const targets = entries.map(entry => {
+      const [, language, column] = entry.match(this.TARGET_PATTERN) || [];
+      const columnNumber = column ? SpreadsheetService.letterToColumn(column.toUpperCase()) : nextColumn;
+      nextColumn = columnNumber + 1;
+      return { language, column: SpreadsheetService.columnToLetter(columnNumber) };
+    });
+
+    const columns = targets.map(target => target.column);
+    const duplicate = columns.find((column, index) => columns.indexOf(column) !== index);
+    if (duplicate) throw new Error(`Two languages are mapped to column ${duplicate}`);
+
+    return targets;
+  }
+
+  /**
+   * Reads a glossary sheet: terms in the first column, and optionally one column per language
+   * (headed by the language name) with the preferred translation. The first row is the header.
+   */
+  static readGlossary(sheetName: string): GlossaryEntry[] {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Glossary sheet ${sheetName} not found`);
+    if (sheet.getLastRow() < 2) return [];
+
+    const [header, ...rows] = sheet.getDataRange().getDisplayValues();
+    const languages = header.slice(1).map(language => language.trim().toLowerCase());
+
+    return rows
+      .filter(row => row[0].trim())
+      .map(row => {
+        const translations: Record<string, string> = {};
+        languages.forEach((language, index) => {
+          const translation = row[index + 1]?.trim();
+          if (language && translation) translations[language] = translation;
+        });
+        return { term: row[0].trim(), translations };
+      });
+  }
+
+  /**
+   * Replaces placeholders, HTML tags, entities and URLs with numbered tokens so the model
+   * can't translate or drop them
+   */
+  static protect(text: string): ProtectedText {
+    const tokens: string[] = [];
+    const protectedText = text.replace(this.PROTECTED_PATTERN, match => {
+      tokens.push(match);
+      return `⟦${tokens.length - 1}⟧`;
+    });
+    return { text: protectedText, tokens };
+  }
+
+  /**
+   * Puts the protected tokens back, returning an error if the model lost any of them
+   */
+  static restore(text: string, tokens: string[]): { text: string; error?: string } {
+    const missing = tokens.map((_, index) => `⟦${index}⟧`).filter(token => !text.includes(token));
+    if (missing.length) {
+      return { text, error: `Translation dropped protected text: ${missing.map(token => tokens[parseInt(token.slice(1))]).join(' ')}` };
+    }
+    return { text: text.replace(/⟦(\d+)⟧/g, (token, index) => tokens[parseInt(index)] ?? token) };
+  }
+
+  /**
+   * System instructions for one target language, with the glossary terms that occur in the text
+   */
+  static buildInstructions(language: string, glossary: GlossaryEntry[], text: string, context?: string): string {
+    const lowerText = text.toLowerCase();
+    const terms = glossary
+      .filter(entry => lowerText.includes(entry.term.toLowerCase()))
+      .map(entry => {
+        const translation = entry.translations[language.toLowerCase()];
+        return translation ? `- "${entry.term}" → "${translation}"` : `- "${entry.term}" (keep as-is, do not translate)`;
+      });
+
+    return [
+      `Translate the text into ${language}. Detect the source language.`,
+      text.includes('⟦') ? 'Keep tokens like ⟦0⟧ exactly as they are, in a sensible position.' : '',
+      'Preserve line breaks and punctuation style.',
+      terms.length ? `Use this glossary:\n${terms.join('\n')}` : '',
+      context ? `Context: ${context}` : '',
+      'Reply with only a JSON object with "translation" and "source_language" (the English name of the source language).'
+    ].filter(Boolean).join('\n\n');
+  }
+
+  static buildSchema(): Record<string, unknown> {
+    return {
+      type: 'object',
+      properties: {
+        translation: { type: 'string' },
+        source_language: { type: 'string' }
+      },
+      required: ['translation', 'source_language'],
+      additionalProperties: false
+    };
+  }
+
+  /**
+   * Reads a translation response and restores protected tokens. Falls back to treating the
+   * whole response as the translation if it isn't JSON.
+   */
+  static parseResponse(text: string, tokens: string[]): TranslationAnswer {
+    let translation = text;
+    let sourceLanguage = '';
+    try {
+      const data = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+      if (typeof data?.translation === 'string') {
+        translation = data.translation;
+        sourceLanguage = typeof data.source_language === 'string' ? data.source_language : '';
+      }
+    } catch (error) {
+      // Plain-text answer
+    }
+
+    const restored = this.restore(translation, tokens);
+    return { translation: restored.text, sourceLanguage, error: restored.error };
+  }
+}
@@ -0,0 +1,287 @@
+import 'google-apps-script';
+import { CellValue, CellWrite, SpreadsheetService } from './spreadsheet.service';
+
+/**
+ * A cell's contents before a run overwrote it, plus a digest of what the run wrote
+ */
+interface CellSnapshot {
+  r: number;
+  c: string;
+  v?: string | number | boolean;
+  d?: string;
+  f?: string;
+  n?: string;
+  w: string;
+}
+
+export interface UndoResult {
+  success: boolean;
+  message: string;
+  restored?: number;
+  conflicts?: string[];
+}
+
+export class UndoService {
+  private static readonly SHEET_NAME = 'Sun Locke Undo';
+  private static readonly HEADERS = ['Run ID', 'Created', 'Sheet', 'Cells'];
+  private static readonly MAX_RUNS = 20;
+
+  // Stay under the 50,000 character limit of a single cell
+  private static readonly MAX_CHUNK_LENGTH = 45000;
+
+  /**
+   * Saves the current values, formulas and notes of the cells a run is about to write.
+   * Call before every write; a run may snapshot many times (e.g. once per job chunk).
+   */
+  static snapshot(runId: string, sheetName: string, cells: CellWrite[]): void {
+    if (!cells.length) return;
+
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+
+    const snapshots: CellSnapshot[] = [];
+    this.groupByColumn(cells).forEach((rows, column) => {
+      const firstRow = Math.min(...rows);
+      const range = sheet.getRange(firstRow, SpreadsheetService.letterToColumn(column), Math.max(...rows) - firstRow + 1, 1);
+      const values = range.getValues();
+      const formulas = range.getFormulas();
+      const notes = range.getNotes();
+
+      cells.filter(cell => cell.column.toUpperCase() === column).forEach(cell => {
+        const index = cell.row - firstRow;
+        const value = values[index][0];
+        const snapshot: CellSnapshot = { r: cell.row, c: column, w: this.digest(cell.value) };
+
+        if (formulas[index][0]) {
+          snapshot.f = formulas[index][0];
+        } else if (value instanceof Date) {
+          snapshot.d = value.toISOString();
+        } else if (value !== '') {
+          snapshot.v = value;
+        }
+        if (notes[index][0]) snapshot.n = notes[index][0];
+
+        snapshots.push(snapshot);
+      });
+    });
+
+    const snapshotSheet = SpreadsheetService.getOrCreateHiddenSheet(this.SHEET_NAME, this.HEADERS);
+    const created = new Date();
+    const rows = this.chunk(snapshots).map(json => [runId, created, sheetName, json]);
+
+    if (!this.findRows(snapshotSheet, runId).length) {
+      this.pruneOldRuns(snapshotSheet);
+    }
+    snapshotSheet
+      .getRange(snapshotSheet.getLastRow() + 1, 1, rows.length, this.HEADERS.length)
+      .setValues(rows);
+  }
+
+  /**
+   * Restores every cell a run wrote. If any of those cells changed after the run, nothing
+   * is restored and the changed cells are returned, unless force is set.
+   */
+  static undoRun(runId: string, force: boolean = false): UndoResult {
+    const snapshotSheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(this.SHEET_NAME);
+    const snapshotRows = snapshotSheet ? this.findRows(snapshotSheet, runId) : [];
+    if (!snapshotSheet || !snapshotRows.length) {
+      return {
+        success: false,
+        message: 'Nothing to undo for this run. It may have written no cells or be too old.'
+      };
+    }
+
+    // Group snapshots by sheet, keeping write order so the earliest snapshot of a cell wins
+    const bySheet = new Map<string, CellSnapshot[]>();
+    snapshotRows.forEach(row => {
+      const [, , sheetName, json] = snapshotSheet.getRange(row, 1, 1, this.HEADERS.length).getValues()[0];
+      const snapshots = bySheet.get(sheetName) || [];
+      bySheet.set(sheetName, snapshots.concat(JSON.parse(json)));
+    });
+
+    const conflicts: string[] = [];
+    const restores: { sheet: GoogleAppsScript.Spreadsheet.Sheet; column: string; snapshots: CellSnapshot[] }[] = [];
+
+    bySheet.forEach((snapshots, sheetName) => {
+      const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+      if (!sheet) {
+        conflicts.push(`${sheetName} (sheet deleted)`);
+        return;
+      }
+
+      const byColumn = new Map<string, CellSnapshot[]>();
+      snapshots.forEach(snapshot => {
+        byColumn.set(snapshot.c, (byColumn.get(snapshot.c) || []).concat(snapshot));
+      });
+
+      byColumn.forEach((columnSnapshots, column) => {
+        conflicts.push(...this.findConflicts(sheet, column, columnSnapshots).map(row => `${sheetName}!${column}${row}`));
+        restores.push({ sheet, column, snapshots: columnSnapshots });
+      });
+    });
+
+    if (conflicts.length && !force) {
+      return {
+        success: false,
+        message: `${conflicts.length} cell(s) were edited after the run and would be overwritten.`,
+        conflicts
+      };
+    }
+
+    let restored = 0;
+    restores.forEach(({ sheet, column, snapshots }) => {
+      restored += this.restoreColumn(sheet, column, snapshots);
+    });
+
+    this.deleteRows(snapshotSheet, snapshotRows);
+
+    return {
+      success: true,
+      message: `Restored ${restored} cell(s)`,
+      restored,
+      conflicts
+    };
+  }
+
+  /**
+   * Returns the rows whose current contents no longer match what the run wrote
+   */
+  private static findConflicts(sheet: GoogleAppsScript.Spreadsheet.Sheet, column: string, snapshots: CellSnapshot[]): number[] {
+    const { range, firstRow } = this.getColumnRange(sheet, column, snapshots);
+    const values = range.getValues();
+    const displayValues = range.getDisplayValues();
+    const formulas = range.getFormulas();
+
+    // A cell written twice in one run is compared against the last write
+    const lastWrites = new Map<number, string>();
+    snapshots.forEach(snapshot => lastWrites.set(snapshot.r, snapshot.w));
+
+    const conflicts: number[] = [];
+    lastWrites.forEach((written, row) => {
+      const index = row - firstRow;
+      // Sheets may have converted the written text to a number, date or formula
+      const candidates = [String(values[index][0]), displayValues[index][0], formulas[index][0]];
+      if (!candidates.some(candidate => this.digest(candidate) === written)) {
+        conflicts.push(row);
+      }
+    });
+    return conflicts;
+  }
+
+  /**
+   * Writes back the snapshotted cells only, one range per block of consecutive rows,
+   * so cells in between that the run didn't touch keep any edits made since
+   */
+  private static restoreColumn(sheet: GoogleAppsScript.Spreadsheet.Sheet, column: string, snapshots: CellSnapshot[]): number {
+    // A cell written twice in one run goes back to its contents before the first write
+    const originals = new Map<number, { value: CellValue; note: string }>();
+    snapshots.slice().reverse().forEach(snapshot => {
+      originals.set(snapshot.r, {
+        value: snapshot.f ?? (snapshot.d ? new Date(snapshot.d) : snapshot.v ?? ''),
+        note: snapshot.n || ''
+      });
+    });
+
+    const columnIndex = SpreadsheetService.letterToColumn(column);
+    const rows = Array.from(originals.keys()).sort((a, b) => a - b);
+    let start = 0;
+    rows.forEach((row, index) => {
+      if (index < rows.length - 1 && rows[index + 1] === row + 1) return;
+
+      const block = rows.slice(start, index + 1);
+      const range = sheet.getRange(block[0], columnIndex, block.length, 1);
+      const values: CellValue[][] = block.map(blockRow => [originals.get(blockRow)!.value]);
+      range.setValues(values);
+      range.setNotes(block.map(blockRow => [originals.get(blockRow)!.note]));
+      start = index + 1;
+    });
+    return rows.length;
+  }
+
+  private static getColumnRange(sheet: GoogleAppsScript.Spreadsheet.Sheet, column: string, snapshots: CellSnapshot[]) {
+    const rows = snapshots.map(snapshot => snapshot.r);
+    const firstRow = Math.min(...rows);
+    const range = sheet.getRange(firstRow, SpreadsheetService.letterToColumn(column), Math.max(...rows) - firstRow + 1, 1);
+    return { range, firstRow };
+  }
+
+  private static groupByColumn(cells: CellWrite[]): Map<string, number[]> {
+    const columns = new Map<string, number[]>();
+    cells.forEach(cell => {
+      const column = cell.column.toUpperCase();
+      columns.set(column, (columns.get(column) || []).concat(cell.row));
+    });
+    return columns;
+  }
+
+  /**
+   * Splits snapshots into JSON strings that each fit in one cell
+   */
+  private static chunk(snapshots: CellSnapshot[]): string[] {
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let length = 2;
+
+    snapshots.forEach(snapshot => {
+      const json = JSON.stringify(snapshot);
+      if (current.length && length + json.length + 1 > this.MAX_CHUNK_LENGTH) {
+        chunks.push(`[${current.join(',')}]`);
+        current = [];
+        length = 2;
+      }
+      current.push(json);
+      length += json.length + 1;
+    });
+    chunks.push(`[${current.join(',')}]`);
+
+    return chunks;
+  }
+
+  private static findRows(sheet: GoogleAppsScript.Spreadsheet.Sheet, runId: string): number[] {
+    if (sheet.getLastRow() < 2) return [];
+    return sheet.getRange(2, 1, sheet.getLastRow() - 1, 1)
+      .createTextFinder(runId)
+      .matchEntireCell(true)
+      .findAll()
+      .map(range => range.getRow());
+  }
+
+  /**
+   * Drops the snapshots of the oldest runs so the sheet keeps at most MAX_RUNS - 1 before a new run
+   */
+  private static pruneOldRuns(sheet: GoogleAppsScript.Spreadsheet.Sheet): void {
+    if (sheet.getLastRow() < 2) return;
+
+    const runIds = sheet.getRange(2, 1, sheet.getLastRow() - 1, 1).getValues().map(row => String(row[0]));
+    const distinct = Array.from(new Set(runIds));
+    if (distinct.length < this.MAX_RUNS) return;
+
+    const expired = new Set(distinct.slice(0, distinct.length - this.MAX_RUNS + 1));
+    const rows = runIds
+      .map((id, index) => (expired.has(id) ? index + 2 : 0))
+      .filter(row => row > 0);
+    this.deleteRows(sheet, rows);
+  }
+
+  /**
+   * Deletes rows bottom-up, one call per contiguous block
+   */
+  private static deleteRows(sheet: GoogleAppsScript.Spreadsheet.Sheet, rows: number[]): void {
+    const blocks = rows.slice().sort((a, b) => a - b)
+      .reduce<{ start: number; count: number }[]>((acc, row) => {
+        const last = acc[acc.length - 1];
+        if (last && last.start + last.count === row) {
+          last.count++;
+        } else {
+          acc.push({ start: row, count: 1 });
+        }
+        return acc;
+      }, []);
+
+    blocks.reverse().forEach(block => sheet.deleteRows(block.start, block.count));
+  }
+
+  private static digest(value: string): string {
+    return Utilities.base64Encode(Utilities.computeDigest(Utilities.DigestAlgorithm.MD5, value, Utilities.Charset.UTF_8));
+  }
+}
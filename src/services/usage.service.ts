@@ -0,0 +1,269 @@
+import 'google-apps-script';
+import { TokenUsage } from './provider.service';
+
+/**
+ * Price in USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Spending limits in USD. Unset or zero means no limit.
+ */
+export interface Budgets {
+  perRun?: number;
+  perUserDay?: number;
+  perSpreadsheet?: number;
+}
+
+export interface BudgetStatus {
+  budgets: Budgets;
+  spentToday: number;
+  spentInSpreadsheet: number;
+  // The spreadsheet budget applies to everyone using it, so only its owner can change it
+  canEditSpreadsheetBudget: boolean;
+}
+
+interface DailySpend {
+  date: string;
+  amount: number;
+}
+
+export class UsageService {
+  // List prices; override or extend with the MODEL_PRICES script property (JSON, same shape)
+  private static readonly PRICES: Record<string, ModelPrice> = {
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1-mini': { input: 1.1, output: 4.4 },
+    'o1-preview': { input: 15, output: 60 },
+    'o1': { input: 15, output: 60 },
+    'o3-mini': { input: 1.1, output: 4.4 },
+    'claude-3-5-sonnet': { input: 3, output: 15 },
+    'claude-3-5-haiku': { input: 0.8, output: 4 },
+    'claude-3-opus': { input: 15, output: 75 },
+    'claude-3-haiku': { input: 0.25, output: 1.25 },
+    'deepseek-chat': { input: 0.27, output: 1.1 },
+    'DeepSeek-V3': { input: 0.27, output: 1.1 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19 },
+    'DeepSeek-R1': { input: 0.55, output: 2.19 },
+    'llama-3.1-sonar-small-128k-online': { input: 0.2, output: 0.2 },
+    'llama-3.1-sonar-large-128k-online': { input: 1, output: 1 },
+    'llama-3.1-sonar-huge-128k-online': { input: 5, output: 5 },
+    'sonar': { input: 1, output: 1 },
+    'sonar-pro': { input: 3, output: 15 },
+    'sonar-reasoning': { input: 1, output: 5 }
+  };
+
+  private static readonly BUDGETS_KEY = 'budgets';
+  private static readonly SPREADSHEET_BUDGET_KEY = 'spreadsheetBudget';
+  private static readonly DAILY_SPEND_KEY = 'dailySpend';
+  private static readonly SPREADSHEET_SPEND_KEY = 'spreadsheetSpend';
+  // Custom functions can't write properties, so their spend waits in the cache (for up to
+  // 6 hours) until the next recordSpend from a normal execution folds it in
+  private static readonly PENDING_DAILY_KEY = 'pendingDailySpend';
+  private static readonly PENDING_SPREADSHEET_KEY = 'pendingSpreadsheetSpend';
+  private static readonly PENDING_TTL_SECONDS = 6 * 60 * 60;
+
+  /**
+   * Gets a model's price. Dated or suffixed model IDs (e.g. gpt-4o-2024-08-06) use the
+   * longest matching prefix. Returns null for models without a known price.
+   */
+  static getPrice(model: string): ModelPrice | null {
+    const prices: Record<string, ModelPrice> = { ...this.PRICES, ...this.getPriceOverrides() };
+    const id = model.replace(/^[a-z]+:/, '');
+    const match = Object.keys(prices)
+      .filter(key => id === key || id.startsWith(`${key}-`))
+      .sort((a, b) => b.length - a.length)[0];
+    return match ? prices[match] : null;
+  }
+
+  /**
+   * Cost of a request in USD (0 for models without a known price)
+   */
+  static getCost(model: string, usage: TokenUsage): number {
+    const price = this.getPrice(model);
+    if (!price) return 0;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6;
+  }
+
+  /**
+   * Gets the budgets: per run and per user per day are the user's own settings,
+   * the spreadsheet budget is shared by everyone using this spreadsheet
+   */
+  static getBudgets(): Budgets {
+    const json = PropertiesService.getUserProperties().getProperty(this.BUDGETS_KEY);
+    const budgets: Budgets = json ? JSON.parse(json) : {};
+    const spreadsheetBudget = parseFloat(PropertiesService.getDocumentProperties().getProperty(this.SPREADSHEET_BUDGET_KEY) || '');
+    if (spreadsheetBudget > 0) budgets.perSpreadsheet = spreadsheetBudget;
+    return budgets;
+  }
+
+  /**
+   * Saves the budgets that are given; zero removes a limit and omitted ones stay as they are.
+   * Only the spreadsheet's owner can change the spreadsheet budget.
+   */
+  static saveBudgets(budgets: Budgets): Budgets {
+    const positive = (value?: number) => (value && value > 0 ? Number(value) : undefined);
+    const userProperties = PropertiesService.getUserProperties();
+    const json = userProperties.getProperty(this.BUDGETS_KEY);
+    const current: Budgets = json ? JSON.parse(json) : {};
+    userProperties.setProperty(this.BUDGETS_KEY, JSON.stringify({
+      perRun: 'perRun' in budgets ? positive(budgets.perRun) : current.perRun,
+      perUserDay: 'perUserDay' in budgets ? positive(budgets.perUserDay) : current.perUserDay
+    }));
+
+    const perSpreadsheet = positive(budgets.perSpreadsheet);
+    if ('perSpreadsheet' in budgets && perSpreadsheet !== this.getBudgets().perSpreadsheet) {
+      if (!this.canEditSpreadsheetBudget()) {
+        throw new Error('Only the owner of this spreadsheet can change its budget');
+      }
+      const documentProperties = PropertiesService.getDocumentProperties();
+      if (perSpreadsheet) {
+        documentProperties.setProperty(this.SPREADSHEET_BUDGET_KEY, String(perSpreadsheet));
+      } else {
+        documentProperties.deleteProperty(this.SPREADSHEET_BUDGET_KEY);
+      }
+    }
+    return this.getBudgets();
+  }
+
+  static getStatus(): BudgetStatus {
+    return {
+      budgets: this.getBudgets(),
+      spentToday: this.getSpentToday(),
+      spentInSpreadsheet: this.getSpentInSpreadsheet(),
+      canEditSpreadsheetBudget: this.canEditSpreadsheetBudget()
+    };
+  }
+
+  /**
+   * Adds a run's cost, and any spend custom functions left in the cache, to today's and the
+   * spreadsheet's spend
+   */
+  static recordSpend(cost: number): void {
+    this.withSpendLock(() => {
+      const userCache = CacheService.getUserCache();
+      const documentCache = CacheService.getDocumentCache();
+      const pendingToday = this.getPendingToday();
+      const pendingInSpreadsheet = this.getPendingInSpreadsheet();
+      if (cost <= 0 && !pendingToday && !pendingInSpreadsheet) return;
+
+      const daily: DailySpend = { date: this.today(), amount: this.getRecordedToday() + pendingToday + cost };
+      PropertiesService.getUserProperties().setProperty(this.DAILY_SPEND_KEY, JSON.stringify(daily));
+      userCache?.remove(this.PENDING_DAILY_KEY);
+
+      const spreadsheetSpend = this.getRecordedInSpreadsheet() + pendingInSpreadsheet + cost;
+      PropertiesService.getDocumentProperties().setProperty(this.SPREADSHEET_SPEND_KEY, String(spreadsheetSpend));
+      documentCache?.remove(this.PENDING_SPREADSHEET_KEY);
+    });
+  }
+
+  /**
+   * Records spend from a custom function, which can only write to the cache
+   */
+  static recordFormulaSpend(cost: number): void {
+    if (cost <= 0) return;
+
+    this.withSpendLock(() => {
+      const daily: DailySpend = { date: this.today(), amount: this.getPendingToday() + cost };
+      CacheService.getUserCache()?.put(this.PENDING_DAILY_KEY, JSON.stringify(daily), this.PENDING_TTL_SECONDS);
+      CacheService.getDocumentCache()?.put(
+        this.PENDING_SPREADSHEET_KEY,
+        String(this.getPendingInSpreadsheet() + cost),
+        this.PENDING_TTL_SECONDS
+      );
+    });
+  }
+
+  /**
+   * Returns why spending another `additionalCost` (on top of `runCost` already spent in this run)
+   * would exceed a budget, or null if it fits
+   */
+  static checkBudget(runCost: number, additionalCost: number = 0): string | null {
+    const budgets = this.getBudgets();
+    const format = (amount: number) => `$${amount.toFixed(2)}`;
+
+    if (budgets.perRun && runCost + additionalCost > budgets.perRun) {
+      return `This would exceed the run budget of ${format(budgets.perRun)}`;
+    }
+    if (budgets.perUserDay && this.getSpentToday() + additionalCost > budgets.perUserDay) {
+      return `This would exceed your daily budget of ${format(budgets.perUserDay)}`;
+    }
+    if (budgets.perSpreadsheet && this.getSpentInSpreadsheet() + additionalCost > budgets.perSpreadsheet) {
+      return `This would exceed the spreadsheet's budget of ${format(budgets.perSpreadsheet)}`;
+    }
+    return null;
+  }
+
+  private static canEditSpreadsheetBudget(): boolean {
+    const email = Session.getActiveUser().getEmail();
+    const owner = SpreadsheetApp.getActiveSpreadsheet().getOwner();
+    return !!email && !!owner && owner.getEmail() === email;
+  }
+
+  private static getSpentToday(): number {
+    return this.getRecordedToday() + this.getPendingToday();
+  }
+
+  private static getSpentInSpreadsheet(): number {
+    return this.getRecordedInSpreadsheet() + this.getPendingInSpreadsheet();
+  }
+
+  private static getRecordedToday(): number {
+    const json = PropertiesService.getUserProperties().getProperty(this.DAILY_SPEND_KEY);
+    const daily: DailySpend | null = json ? JSON.parse(json) : null;
+    return daily && daily.date === this.today() ? daily.amount : 0;
+  }
+
+  private static getRecordedInSpreadsheet(): number {
+    return parseFloat(PropertiesService.getDocumentProperties().getProperty(this.SPREADSHEET_SPEND_KEY) || '0') || 0;
+  }
+
+  private static getPendingToday(): number {
+    const json = CacheService.getUserCache()?.get(this.PENDING_DAILY_KEY);
+    const daily: DailySpend | null = json ? JSON.parse(json) : null;
+    return daily && daily.date === this.today() ? daily.amount : 0;
+  }
+
+  private static getPendingInSpreadsheet(): number {
+    return parseFloat(CacheService.getDocumentCache()?.get(this.PENDING_SPREADSHEET_KEY) || '0') || 0;
+  }
+
+  /**
+   * The sidebar, job trigger, watchers and custom functions can record spend at the same time.
+   * Spend is still recorded if a lock can't be had, so a paid request is never lost.
+   */
+  private static withSpendLock(action: () => void): void {
+    const locks = [LockService.getUserLock(), LockService.getDocumentLock()]
+      .filter((lock): lock is GoogleAppsScript.Lock.Lock => !!lock);
+    const held = locks.filter(lock => lock.tryLock(10000));
+    if (held.length < locks.length) {
+      console.error('Recording spend without a lock; another execution held it too long');
+    }
+    try {
+      action();
+    } finally {
+      held.forEach(lock => lock.releaseLock());
+    }
+  }
+
+  private static getPriceOverrides(): Record<string, ModelPrice> {
+    const json = PropertiesService.getScriptProperties().getProperty('MODEL_PRICES');
+    if (!json) return {};
+    try {
+      return JSON.parse(json);
+    } catch (error) {
+      console.error('Ignoring invalid MODEL_PRICES script property:', error);
+      return {};
+    }
+  }
+
+  private static today(): string {
+    return Utilities.formatDate(new Date(), Session.getScriptTimeZone(), 'yyyy-MM-dd');
+  }
+}
@@ -0,0 +1,446 @@
+import 'google-apps-script';
+import { JobService } from './job.service';
+import { PromptConfig, PromptService } from './prompt.service';
+import { SpreadsheetService } from './spreadsheet.service';
+
+/**
+ * How a watcher notices rows:
+ * - edit: right away, when an input cell is edited or a row is added (including form responses)
+ * - time: about once an hour, picking up rows added since the last check. Add-on time triggers
+ *   can't run more often, so these checks ride on the background job queue's hourly trigger.
+ */
+export type WatchMode = 'edit' | 'time';
+
+/**
+ * A saved run configuration that processes new and edited rows on its own.
+ * Watchers belong to the spreadsheet; the triggers that run them belong to the owner,
+ * the person who last switched the watcher on.
+ */
+export interface Watcher {
+  id: string;
+  name: string;
+  enabled: boolean;
+  mode: WatchMode;
+  config: PromptConfig;
+  // Input and variable columns: editing one of these queues the row
+  watchColumns: string[];
+  firstRow: number;
+  // Last row seen, so only rows added after it count as new
+  lastRow: number;
+  owner: string;
+  createdAt: string;
+  updatedAt: string;
+  lastCheckedAt?: string;
+  lastQueuedAt?: string;
+  lastMessage?: string;
+}
+
+export interface WatcherInput {
+  id?: string;
+  name: string;
+  mode: WatchMode;
+  config: PromptConfig;
+}
+
+/**
+ * The owner's copy of a spreadsheet's time watchers. The job trigger can open other spreadsheets,
+ * but their document properties and lock stay out of reach, so time watchers run from this copy.
+ */
+interface TimedWatchers {
+  checkedAt: number;
+  watchers: Watcher[];
+}
+
+export class WatcherService {
+  private static readonly WATCHER_PREFIX = 'watcher_';
+  private static readonly WATCHER_INDEX_KEY = 'watcherIds';
+  // One user property per spreadsheet, followed by its ID
+  private static readonly TIMED_PREFIX = 'timedWatchers_';
+  // Developer metadata mapping each time watcher to its owner, so a former owner's copy is ignored
+  private static readonly OWNERS_METADATA_KEY = 'timedWatcherOwners';
+  private static readonly EDIT_FUNCTION = 'onWatchedEdit';
+  private static readonly CHANGE_FUNCTION = 'onWatchedChange';
+  private static readonly FORM_FUNCTION = 'onWatchedFormSubmit';
+  // The job queue also runs every few seconds while a sidebar is open; check about hourly regardless
+  private static readonly CHECK_INTERVAL_MS = 55 * 60 * 1000;
+
+  /**
+   * Lists the watchers of the active spreadsheet. Time watchers the current user owns show the
+   * progress from their own copy.
+   */
+  static listWatchers(): Watcher[] {
+    const timed = this.getTimedWatchers(SpreadsheetApp.getActiveSpreadsheet().getId());
+    return this.getWatcherIds()
+      .map(id => this.getWatcher(id))
+      .filter((watcher): watcher is Watcher => !!watcher)
+      .map(watcher => {
+        const tracked = timed?.watchers.find(copy => copy.id === watcher.id && copy.updatedAt === watcher.updatedAt);
+        if (!tracked) return watcher;
+        const { lastRow, lastCheckedAt, lastQueuedAt, lastMessage } = tracked;
+        return { ...watcher, lastRow, lastCheckedAt, lastQueuedAt, lastMessage };
+      });
+  }
+
+  /**
+   * Saves a watcher and switches it on. Rows already in the sheet are left alone;
+   * only rows added or edited from now on are processed.
+   */
+  static saveWatcher(input: WatcherInput): Watcher {
+    if (!input.name?.trim()) throw new Error('Give the watcher a name');
+    if (!['edit', 'time'].includes(input.mode)) throw new Error('Choose when the watcher runs');
+
+    if (input.config.aggregate) throw new Error('A watcher fills rows one by one, so it can\'t run a column summary');
+
+    // Validate like a run would, and pin a selection to its range
+    const { rows, ...config } = input.config;
+    const plan = PromptService.createPlan({ ...config });
+    const { rows: resolvedRows, ...pinnedConfig } = plan.config;
+
+    const sheet = this.getSheet(plan.config.inputSheet);
+    const now = new Date().toISOString();
+    const existing = input.id ? this.getWatcher(input.id) : null;
+    const watcher: Watcher = {
+      id: existing?.id || Utilities.getUuid(),
+      name: input.name.trim(),
+      enabled: true,
+      mode: input.mode,
+      config: pinnedConfig,
+      watchColumns: plan.columns,
+      firstRow: resolvedRows?.length ? resolvedRows[0] : config.startRow,
+      lastRow: sheet.getLastRow(),
+      owner: this.getCurrentUser(),
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    this.withLock(() => this.saveWatcherRecord(watcher));
+    this.syncTriggers();
+    return watcher;
+  }
+
+  /**
+   * Switches a watcher on or off. Switching on makes the current user the owner and
+   * skips rows added while it was off.
+   */
+  static setEnabled(watcherId: string, enabled: boolean): Watcher {
+    const watcher = this.withLock(() => {
+      const stored = this.getWatcher(watcherId);
+      if (!stored) throw new Error('Watcher not found');
+
+      stored.enabled = enabled;
+      if (enabled) {
+        stored.owner = this.getCurrentUser();
+        stored.lastRow = this.getSheet(stored.config.inputSheet).getLastRow();
+        stored.lastMessage = undefined;
+      }
+      stored.updatedAt = new Date().toISOString();
+      this.saveWatcherRecord(stored);
+      return stored;
+    });
+
+    this.syncTriggers();
+    return watcher;
+  }
+
+  static deleteWatcher(watcherId: string): boolean {
+    const deleted = this.withLock(() => {
+      const ids = this.getWatcherIds();
+      if (!ids.includes(watcherId)) return false;
+
+      const documentProperties = PropertiesService.getDocumentProperties();
+      documentProperties.deleteProperty(this.WATCHER_PREFIX + watcherId);
+      documentProperties.setProperty(this.WATCHER_INDEX_KEY, JSON.stringify(ids.filter(id => id !== watcherId)));
+      return true;
+    });
+
+    this.syncTriggers();
+    return deleted;
+  }
+
+  /**
+   * Installable onEdit handler: queues edited rows whose input changed
+   */
+  static handleEdit(e: GoogleAppsScript.Events.SheetsOnEdit): void {
+    const range = e.range;
+    const sheetName = range.getSheet().getName();
+    const firstColumn = range.getColumn();
+    const lastColumn = firstColumn + range.getNumColumns() - 1;
+
+    this.forEachWatcher('edit', watcher => {
+      if (watcher.config.inputSheet !== sheetName) return;
+
+      const touchesInput = watcher.watchColumns.some(column => {
+        const number = SpreadsheetService.letterToColumn(column);
+        return number >= firstColumn && number <= lastColumn;
+      });
+      if (!touchesInput) return;
+
+      const rows: number[] = [];
+      for (let row = Math.max(range.getRow(), watcher.firstRow); row <= range.getLastRow(); row++) {
+        rows.push(row);
+      }
+      // Typing into a new row at the bottom counts as adding it
+      watcher.lastRow = Math.max(watcher.lastRow, range.getLastRow());
+      this.queueRows(watcher, rows);
+    });
+  }
+
+  /**
+   * Installable onChange and onFormSubmit handler: queues rows added below the last row seen
+   */
+  static handleNewRows(): void {
+    this.forEachWatcher('edit', watcher => this.queueNewRows(watcher));
+  }
+
+  /**
+   * Queues rows added since the last check for the current user's time watchers, in every
+   * spreadsheet that has them. Called by the job queue while it holds the user lock; each
+   * spreadsheet is checked at most about once an hour. Only the owner's copies are read, since
+   * another spreadsheet's document properties can't be.
+   */
+  static checkTimedWatchers(): void {
+    const userProperties = PropertiesService.getUserProperties();
+    const user = this.getCurrentUser();
+    const now = Date.now();
+
+    userProperties.getKeys()
+      .filter(key => key.startsWith(this.TIMED_PREFIX))
+      .forEach(key => {
+        const spreadsheetId = key.slice(this.TIMED_PREFIX.length);
+        const timed = this.getTimedWatchers(spreadsheetId);
+        if (!timed || now - timed.checkedAt < this.CHECK_INTERVAL_MS) return;
+
+        let spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet;
+        try {
+          spreadsheet = SpreadsheetApp.openById(spreadsheetId);
+        } catch (error) {
+          // The spreadsheet was deleted or is no longer shared with the owner
+          console.error(`Can't open spreadsheet ${spreadsheetId} to check its watchers:`, error);
+          userProperties.deleteProperty(key);
+          return;
+        }
+        // Plans and jobs read the sheets of the active spreadsheet
+        SpreadsheetApp.setActiveSpreadsheet(spreadsheet);
+
+        // Someone else may have switched a watcher on since, or it was switched off or deleted
+        const owners = this.getTimedOwners(spreadsheet);
+        const stale = timed.watchers.filter(watcher => owners[watcher.id] !== user);
+        const checked = timed.watchers.filter(watcher => owners[watcher.id] === user);
+        checked.forEach(watcher => {
+          watcher.lastCheckedAt = new Date(now).toISOString();
+          try {
+            const sheet = spreadsheet.getSheetByName(watcher.config.inputSheet);
+            if (!sheet) throw new Error(`Sheet ${watcher.config.inputSheet} not found`);
+
+            const rows = this.takeNewRows(watcher, sheet.getLastRow());
+            if (!rows.length) return;
+            JobService.addWatcherRows(watcher.config, rows, watcher.id, spreadsheetId);
+            this.noteQueued(watcher, rows);
+          } catch (error) {
+            console.error(`Watcher ${watcher.name} failed:`, error);
+            watcher.lastMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+          }
+        });
+
+        // Re-read, so watchers saved from the sidebar in the meantime keep their new settings
+        const same = (a: Watcher, b: Watcher) => a.id === b.id && a.updatedAt === b.updatedAt;
+        const watchers = (this.getTimedWatchers(spreadsheetId) || timed).watchers
+          .filter(watcher => !stale.some(old => same(old, watcher)))
+          .map(watcher => checked.find(copy => same(copy, watcher)) || watcher);
+        this.saveTimedWatchers(spreadsheetId, watchers.length ? { checkedAt: now, watchers } : null);
+      });
+  }
+
+  /**
+   * Whether the current user owns time watchers anywhere, which keeps the job trigger around
+   */
+  static hasTimedWatchers(): boolean {
+    return PropertiesService.getUserProperties().getKeys().some(key => key.startsWith(this.TIMED_PREFIX));
+  }
+
+  /**
+   * Creates or removes the current user's triggers for this spreadsheet to match the
+   * watchers they own, and refreshes their copy of its time watchers
+   */
+  static syncTriggers(): void {
+    const spreadsheet = SpreadsheetApp.getActiveSpreadsheet();
+    const user = this.getCurrentUser();
+    const watchers = this.listWatchers();
+    const owned = watchers.filter(watcher => watcher.enabled && watcher.owner === user);
+    const needsEditTriggers = owned.some(watcher => watcher.mode === 'edit');
+    const timed = owned.filter(watcher => watcher.mode === 'time');
+
+    const existing = ScriptApp.getUserTriggers(spreadsheet);
+    const eventFunctions = [this.EDIT_FUNCTION, this.CHANGE_FUNCTION, this.FORM_FUNCTION];
+    const hasEditTriggers = eventFunctions.every(name => existing.some(trigger => trigger.getHandlerFunction() === name));
+    if (needsEditTriggers && !hasEditTriggers) {
+      this.deleteTriggers(trigger => eventFunctions.includes(trigger.getHandlerFunction()), existing);
+      ScriptApp.newTrigger(this.EDIT_FUNCTION).forSpreadsheet(spreadsheet).onEdit().create();
+      ScriptApp.newTrigger(this.CHANGE_FUNCTION).forSpreadsheet(spreadsheet).onChange().create();
+      ScriptApp.newTrigger(this.FORM_FUNCTION).forSpreadsheet(spreadsheet).onFormSubmit().create();
+    } else if (!needsEditTriggers) {
+      this.deleteTriggers(trigger => eventFunctions.includes(trigger.getHandlerFunction()), existing);
+    }
+
+    // Add-ons get one time trigger per user and document, so time watchers share the job queue's.
+    // listWatchers already carries over the progress of watchers that haven't changed.
+    const spreadsheetId = spreadsheet.getId();
+    const checkedAt = this.getTimedWatchers(spreadsheetId)?.checkedAt || 0;
+    this.saveTimedWatchers(spreadsheetId, timed.length ? { checkedAt, watchers: timed } : null);
+
+    const owners: Record<string, string> = {};
+    watchers
+      .filter(watcher => watcher.enabled && watcher.mode === 'time')
+      .forEach(watcher => {
+        owners[watcher.id] = watcher.owner;
+      });
+    this.saveTimedOwners(spreadsheet, owners);
+
+    if (timed.length) JobService.ensureTrigger();
+  }
+
+  /**
+   * Runs an action for each enabled watcher of a mode that the current user owns, saving
+   * any changes it makes. Triggers clean themselves up once the user owns no watchers.
+   */
+  private static forEachWatcher(mode: WatchMode, action: (watcher: Watcher) => void): void {
+    const user = this.getCurrentUser();
+    let owned = 0;
+
+    this.withLock(() => {
+      this.listWatchers().forEach(watcher => {
+        if (!watcher.enabled || watcher.owner !== user) return;
+        owned++;
+        if (watcher.mode !== mode) return;
+
+        try {
+          action(watcher);
+        } catch (error) {
+          console.error(`Watcher ${watcher.name} failed:`, error);
+          watcher.lastMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+        }
+        this.saveWatcherRecord(watcher);
+      });
+    });
+
+    if (!owned) this.syncTriggers();
+  }
+
+  private static queueNewRows(watcher: Watcher): void {
+    const lastRow = this.getSheet(watcher.config.inputSheet).getLastRow();
+    this.queueRows(watcher, this.takeNewRows(watcher, lastRow));
+  }
+
+  /**
+   * Returns the rows added below the last row seen, and moves the last row seen to the sheet's
+   */
+  private static takeNewRows(watcher: Watcher, lastRow: number): number[] {
+    const rows: number[] = [];
+    // After rows are deleted, rows added from the new last row on are new again
+    for (let row = Math.max(watcher.lastRow + 1, watcher.firstRow); row <= lastRow; row++) {
+      rows.push(row);
+    }
+    watcher.lastRow = lastRow;
+    return rows;
+  }
+
+  /**
+   * Queues the rows as a background job, joining the watcher's job that hasn't started yet.
+   * The watcher's overwrite policy decides which of them are written, so rows with empty
+   * input or unchanged input can be skipped.
+   */
+  private static queueRows(watcher: Watcher, rows: number[]): void {
+    if (!rows.length) return;
+
+    JobService.queueWatcherRows(watcher.config, rows, watcher.id);
+    this.noteQueued(watcher, rows);
+  }
+
+  private static noteQueued(watcher: Watcher, rows: number[]): void {
+    watcher.lastQueuedAt = new Date().toISOString();
+    watcher.lastMessage = `Queued ${rows.length === 1 ? `row ${rows[0]}` : `${rows.length} rows`}`;
+  }
+
+  private static getWatcher(watcherId: string): Watcher | null {
+    const json = PropertiesService.getDocumentProperties().getProperty(this.WATCHER_PREFIX + watcherId);
+    return json ? JSON.parse(json) : null;
+  }
+
+  private static saveWatcherRecord(watcher: Watcher): void {
+    const documentProperties = PropertiesService.getDocumentProperties();
+    documentProperties.setProperty(this.WATCHER_PREFIX + watcher.id, JSON.stringify(watcher));
+
+    const ids = this.getWatcherIds();
+    if (!ids.includes(watcher.id)) {
+      ids.push(watcher.id);
+      documentProperties.setProperty(this.WATCHER_INDEX_KEY, JSON.stringify(ids));
+    }
+  }
+
+  private static getWatcherIds(): string[] {
+    const json = PropertiesService.getDocumentProperties().getProperty(this.WATCHER_INDEX_KEY);
+    return json ? JSON.parse(json) : [];
+  }
+
+  private static getTimedWatchers(spreadsheetId: string): TimedWatchers | null {
+    const json = PropertiesService.getUserProperties().getProperty(this.TIMED_PREFIX + spreadsheetId);
+    return json ? JSON.parse(json) : null;
+  }
+
+  private static saveTimedWatchers(spreadsheetId: string, timed: TimedWatchers | null): void {
+    const userProperties = PropertiesService.getUserProperties();
+    if (timed) {
+      userProperties.setProperty(this.TIMED_PREFIX + spreadsheetId, JSON.stringify(timed));
+    } else {
+      userProperties.deleteProperty(this.TIMED_PREFIX + spreadsheetId);
+    }
+  }
+
+  private static getTimedOwners(spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet): Record<string, string> {
+    const [metadata] = spreadsheet.createDeveloperMetadataFinder().withKey(this.OWNERS_METADATA_KEY).find();
+    return metadata ? JSON.parse(metadata.getValue() || '{}') : {};
+  }
+
+  private static saveTimedOwners(spreadsheet: GoogleAppsScript.Spreadsheet.Spreadsheet, owners: Record<string, string>): void {
+    const value = JSON.stringify(owners);
+    const [metadata] = spreadsheet.createDeveloperMetadataFinder().withKey(this.OWNERS_METADATA_KEY).find();
+    if (!metadata) {
+      spreadsheet.addDeveloperMetadata(this.OWNERS_METADATA_KEY, value);
+    } else if (metadata.getValue() !== value) {
+      metadata.setValue(value);
+    }
+  }
+
+  private static deleteTriggers(
+    match: (trigger: GoogleAppsScript.Script.Trigger) => boolean,
+    triggers: GoogleAppsScript.Script.Trigger[] = ScriptApp.getProjectTriggers()
+  ): void {
+    triggers.filter(match).forEach(trigger => ScriptApp.deleteTrigger(trigger));
+  }
+
+  private static getSheet(sheetName: string): GoogleAppsScript.Spreadsheet.Sheet {
+    const sheet = SpreadsheetApp.getActiveSpreadsheet().getSheetByName(sheetName);
+    if (!sheet) throw new Error(`Sheet ${sheetName} not found`);
+    return sheet;
+  }
+
+  /**
+   * Edits, form responses and timers can arrive together; serialize watcher updates
+   */
+  private static withLock<T>(action: () => T): T {
+    const lock = LockService.getDocumentLock();
+    if (!lock || !lock.tryLock(20000)) {
+      throw new Error('Watchers are busy, please try again');
+    }
+    try {
+      return action();
+    } finally {
+      lock.releaseLock();
+    }
+  }
+
+  // The trigger owner when run from a trigger
+  private static getCurrentUser(): string {
+    return Session.getEffectiveUser().getEmail();
+  }
+}
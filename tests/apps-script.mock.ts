@@ -0,0 +1,17 @@
+/**
+ * Minimal stand-ins for the Apps Script globals used by the pure parts of the services.
+ * Dates are handled in UTC; tests only use the yyyy-MM-dd pattern.
+ */
+const globals = globalThis as Record<string, unknown>;
+
+globals.Utilities = {
+  parseDate: (date: string, _timeZone: string, _format: string) => {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day));
+  },
+  formatDate: (date: Date, _timeZone: string, _format: string) => date.toISOString().slice(0, 10)
+};
+
+globals.Session = {
+  getScriptTimeZone: () => 'UTC'
+};
@@ -0,0 +1,39 @@
+import { ClassificationService } from '../src/services/classification.service';
+
+const globals = globalThis as Record<string, unknown>;
+
+// A spreadsheet whose only range with values is Labels!A2:A4
+const mockSpreadsheet = () => {
+  globals.SpreadsheetApp = {
+    getActiveSpreadsheet: () => ({
+      getRange: (notation: string) => {
+        if (notation === 'Labels!A2:A4') {
+          return { getDisplayValues: () => [['Positive'], ['Negative'], ['']] };
+        }
+        throw new Error('Range not found');
+      }
+    })
+  };
+};
+
+describe('ClassificationService.resolveLabels', () => {
+  beforeEach(mockSpreadsheet);
+
+  it('splits a typed list and drops duplicates', () => {
+    expect(ClassificationService.resolveLabels('Positive, neutral,\nNeutral, Negative'))
+      .toEqual(['Positive', 'neutral', 'Negative']);
+  });
+
+  it('reads labels from a range', () => {
+    expect(ClassificationService.resolveLabels('Labels!A2:A4')).toEqual(['Positive', 'Negative']);
+  });
+
+  it('reads text that only looks like a range as labels', () => {
+    expect(ClassificationService.resolveLabels('Yes:No')).toEqual(['Yes', 'No']);
+    expect(ClassificationService.resolveLabels('Low:High')).toEqual(['Low', 'High']);
+  });
+
+  it('keeps colons inside labels of a list', () => {
+    expect(ClassificationService.resolveLabels('Type: A, Type: B')).toEqual(['Type: A', 'Type: B']);
+  });
+});
@@ -0,0 +1,30 @@
+import { ExtractionService } from '../src/services/extraction.service';
+
+describe('ExtractionService.parseFields', () => {
+  it('fills columns to the right of the first output column', () => {
+    expect(ExtractionService.parseFields('brand, weight_kg:number, in_stock:boolean', 'C')).toEqual([
+      { name: 'brand', type: 'string', column: 'C' },
+      { name: 'weight_kg', type: 'number', column: 'D' },
+      { name: 'in_stock', type: 'boolean', column: 'E' }
+    ]);
+  });
+
+  it('continues after an explicit column', () => {
+    expect(ExtractionService.parseFields('price:number@z\nsku', 'B')).toEqual([
+      { name: 'price', type: 'number', column: 'Z' },
+      { name: 'sku', type: 'string', column: 'AA' }
+    ]);
+  });
+
+  it('accepts types in any case', () => {
+    expect(ExtractionService.parseFields('count:Integer', 'A')[0].type).toBe('integer');
+  });
+
+  it('rejects malformed entries, unknown types and duplicates', () => {
+    expect(() => ExtractionService.parseFields('', 'A')).toThrow('List at least one field');
+    expect(() => ExtractionService.parseFields('1st', 'A')).toThrow('Invalid extraction field "1st"');
+    expect(() => ExtractionService.parseFields('size:float', 'A')).toThrow('Unknown type "float"');
+    expect(() => ExtractionService.parseFields('name, name', 'A')).toThrow('Field name is listed twice');
+    expect(() => ExtractionService.parseFields('a, b@A', 'A')).toThrow('Two fields are mapped to column A');
+  });
+});
@@ -0,0 +1,79 @@
+import { FormulaService } from '../src/services/formula.service';
+import { PromptService } from '../src/services/prompt.service';
+import { ProviderService } from '../src/services/provider.service';
+import { ResponseCacheService } from '../src/services/response-cache.service';
+
+const globals = globalThis as Record<string, unknown>;
+
+// Custom functions can read properties but throw when they write them
+const readOnlyProperties = (values: Record<string, string> = {}) => ({
+  getProperty: (key: string) => values[key] ?? null,
+  setProperty: () => {
+    throw new Error('You do not have permission to call setProperty');
+  },
+  deleteProperty: () => {
+    throw new Error('You do not have permission to call deleteProperty');
+  }
+});
+
+const memoryCache = () => {
+  const entries: Record<string, string> = {};
+  return {
+    entries,
+    get: (key: string) => entries[key] ?? null,
+    put: (key: string, value: string) => {
+      entries[key] = value;
+    },
+    remove: (key: string) => {
+      delete entries[key];
+    }
+  };
+};
+
+const lock = { tryLock: () => true, releaseLock: () => undefined };
+
+describe('FormulaService', () => {
+  let userCache: ReturnType<typeof memoryCache>;
+  let documentCache: ReturnType<typeof memoryCache>;
+
+  beforeEach(() => {
+    userCache = memoryCache();
+    documentCache = memoryCache();
+    globals.PropertiesService = {
+      getUserProperties: () => readOnlyProperties({ budgets: JSON.stringify({ perUserDay: 5 }) }),
+      getDocumentProperties: () => readOnlyProperties(),
+      getScriptProperties: () => readOnlyProperties()
+    };
+    globals.CacheService = { getUserCache: () => userCache, getDocumentCache: () => documentCache };
+    globals.LockService = { getUserLock: () => lock, getDocumentLock: () => lock };
+
+    jest.spyOn(ProviderService, 'resolve').mockReturnValue({} as ReturnType<typeof ProviderService.resolve>);
+    jest.spyOn(ResponseCacheService, 'getKey').mockImplementation(request => `key:${request.prompt}`);
+    jest.spyOn(ResponseCacheService, 'getAll').mockReturnValue({});
+    jest.spyOn(PromptService, 'dispatchWithCache').mockImplementation(requests => requests.map(() => ({
+      success: true,
+      value: 'Positive',
+      usage: { inputTokens: 1000000, outputTokens: 1000000 }
+    })));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the answer when properties are read-only and keeps the spend in the cache', () => {
+    expect(FormulaService.prompt('Rate the review', 'Great product', 'gpt-4o-mini')).toBe('Positive');
+
+    // gpt-4o-mini: $0.15 input + $0.60 output per million tokens
+    expect(JSON.parse(userCache.entries.pendingDailySpend)).toEqual({ date: expect.any(String), amount: 0.75 });
+    expect(parseFloat(documentCache.entries.pendingSpreadsheetSpend)).toBeCloseTo(0.75);
+  });
+
+  it('counts cached spend against the budget', () => {
+    userCache.entries.pendingDailySpend = JSON.stringify({ date: new Date().toISOString().slice(0, 10), amount: 5 });
+
+    expect(() => FormulaService.prompt('Rate the review', 'Great product', 'gpt-4o-mini'))
+      .toThrow('This would exceed your daily budget of $5.00');
+    expect(PromptService.dispatchWithCache).not.toHaveBeenCalled();
+  });
+});
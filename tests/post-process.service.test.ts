@@ -0,0 +1,108 @@
+import { PostProcessOptions, PostProcessService } from '../src/services/post-process.service';
+
+const options = (overrides: Partial<PostProcessOptions>): PostProcessOptions => ({
+  stripMarkdown: false,
+  type: 'text',
+  listColumns: 1,
+  locale: 'en_US',
+  timeZone: 'UTC',
+  ...overrides
+});
+
+describe('PostProcessService', () => {
+  describe('numbers', () => {
+    const parse = (text: string, locale = 'en_US') => PostProcessService.apply(text, options({ type: 'number', locale }));
+
+    it.each([
+      ['42', 42],
+      ['-3.5', -3.5],
+      ['1,250.5', 1250.5],
+      ['$40', 40],
+      ['3.5 kg', 3.5],
+      ['12%', 0.12],
+      ["1'000'000", 1000000],
+      ['1,250', 1250]
+    ])('reads %s', (text, expected) => {
+      expect(parse(text).values).toEqual([expected]);
+    });
+
+    it('follows the locale for a single separator', () => {
+      expect(parse('1.250,5', 'de_DE').values).toEqual([1250.5]);
+      expect(parse('2,5', 'de_DE').values).toEqual([2.5]);
+      expect(parse('1.250', 'de_DE').values).toEqual([1250]);
+    });
+
+    it('fails for text that isn\'t a number', () => {
+      expect(parse('about forty').error).toBe('Expected a number but got: about forty');
+      expect(parse('1.2.3,4.5').error).toBeDefined();
+    });
+  });
+
+  describe('dates', () => {
+    const parse = (text: string, locale = 'en_US') => PostProcessService.apply(text, options({ type: 'date', locale }));
+    const iso = (text: string, locale?: string) => {
+      const [value] = parse(text, locale).values;
+      return value instanceof Date ? value.toISOString().slice(0, 10) : value;
+    };
+
+    it('reads ISO dates', () => {
+      expect(iso('2024-03-07')).toBe('2024-03-07');
+      expect(iso('2024-03-07T10:30:00Z')).toBe('2024-03-07');
+    });
+
+    it('reads numeric dates in the locale\'s order', () => {
+      expect(iso('03/07/2024', 'en_US')).toBe('2024-03-07');
+      expect(iso('03/07/2024', 'en_GB')).toBe('2024-07-03');
+      expect(iso('7.3.24', 'de_DE')).toBe('2024-03-07');
+      expect(iso('2024/03/07', 'de_DE')).toBe('2024-03-07');
+    });
+
+    it('reads dates with month names', () => {
+      expect(iso('March 7th, 2024')).toBe('2024-03-07');
+      expect(iso('Thursday, 7 Mar 2024.')).toBe('2024-03-07');
+      expect(iso('7th of March 2024')).toBe('2024-03-07');
+    });
+
+    it('rejects impossible dates', () => {
+      expect(parse('2024-04-31').error).toBe('Expected a date but got: 2024-04-31');
+      expect(parse('2024-13-01').error).toBeDefined();
+      expect(parse('next Tuesday').error).toBeDefined();
+    });
+  });
+
+  describe('lists', () => {
+    const split = (text: string, overrides: Partial<PostProcessOptions> = {}) =>
+      PostProcessService.apply(text, options({ type: 'list', listColumns: 4, ...overrides }));
+
+    it('splits on newlines and removes bullets and numbering', () => {
+      expect(split('- red\n* green\n3. blue').values).toEqual(['red', 'green', 'blue', '']);
+    });
+
+    it('splits on commas or semicolons when there is one line', () => {
+      expect(split('red, green; blue').values).toEqual(['red', 'green', 'blue', '']);
+    });
+
+    it('uses a custom separator', () => {
+      expect(split('red|green, teal', { listSeparator: '|' }).values).toEqual(['red', 'green, teal', '', '']);
+    });
+
+    it('shortens long items', () => {
+      expect(split('abcdefgh, ij', { maxLength: 5 }).values).toEqual(['abcd…', 'ij', '', '']);
+    });
+
+    it('fails when there are more items than columns', () => {
+      expect(split('a, b, c, d, e').error).toBe('Got 5 items but the list fills 4 columns');
+    });
+  });
+
+  describe('parseTable', () => {
+    it('reads the first table without its separator line', () => {
+      const text = 'Totals:\n\n| Region | **Sales** |\n|:---|---:|\n| North | 1,200 |\n\nSecond table:\n| a | b |';
+      expect(PostProcessService.parseTable(text)).toEqual([['Region', 'Sales'], ['North', '1,200']]);
+    });
+
+    it('returns no rows without a table', () => {
+      expect(PostProcessService.parseTable('Just | some text')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,20 @@
+import { SpreadsheetService } from '../src/services/spreadsheet.service';
+
+describe('SpreadsheetService.parseRowList', () => {
+  it('expands ranges and single rows', () => {
+    expect(SpreadsheetService.parseRowList('2-4,9')).toEqual([2, 3, 4, 9]);
+  });
+
+  it('ignores spaces and empty parts', () => {
+    expect(SpreadsheetService.parseRowList(' 5 , ,7-8,')).toEqual([5, 7, 8]);
+  });
+
+  it('returns no rows for an empty list', () => {
+    expect(SpreadsheetService.parseRowList('')).toEqual([]);
+  });
+
+  it('reads back what formatRowList writes', () => {
+    const rows = [12, 3, 4, 5, 9, 10, 4];
+    expect(SpreadsheetService.parseRowList(SpreadsheetService.formatRowList(rows))).toEqual([3, 4, 5, 9, 10, 12]);
+  });
+});
@@ -0,0 +1,44 @@
+import { TemplateService } from '../src/services/template.service';
+
+describe('TemplateService', () => {
+  describe('extractVariables', () => {
+    it('returns each variable once, trimmed', () => {
+      expect(TemplateService.extractVariables('Hi {{ name }}, {{name}} from {{Company Name}}')).toEqual(['name', 'Company Name']);
+    });
+
+    it('returns nothing for text without placeholders', () => {
+      expect(TemplateService.extractVariables('No {variables} here')).toEqual([]);
+      expect(TemplateService.hasVariables('No {variables} here')).toBe(false);
+    });
+  });
+
+  describe('mapVariablesToColumns', () => {
+    const headers = new Map([['A', 'Name'], ['B', 'Email'], ['C', 'A']]);
+
+    it('matches headers case-insensitively', () => {
+      expect(TemplateService.mapVariablesToColumns(['name', 'EMAIL'], headers).columns).toEqual({ name: 'A', EMAIL: 'B' });
+    });
+
+    it('prefers a header over a column letter', () => {
+      expect(TemplateService.mapVariablesToColumns(['A'], headers).columns).toEqual({ A: 'C' });
+    });
+
+    it('falls back to column letters and reports unknown variables', () => {
+      expect(TemplateService.mapVariablesToColumns(['b', 'Phone', 'Z'], headers)).toEqual({
+        columns: { b: 'B' },
+        unknown: ['Phone', 'Z']
+      });
+    });
+  });
+
+  describe('render', () => {
+    it('replaces known placeholders and leaves the rest', () => {
+      expect(TemplateService.render('{{ greeting }}, {{name}}! {{missing}}', { greeting: 'Hello', name: 'Ada' }))
+        .toBe('Hello, Ada! {{missing}}');
+    });
+
+    it('inserts values literally', () => {
+      expect(TemplateService.render('{{a}}', { a: '$& {{b}}' })).toBe('$& {{b}}');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { TranslationService } from '../src/services/translation.service';
+
+describe('TranslationService token protection', () => {
+  it('replaces placeholders, markup, entities and URLs with numbered tokens', () => {
+    const { text, tokens } = TranslationService.protect(
+      'Hi {{name}}, see <b>details</b> at https://example.com/a?b=1 for %s&nbsp;${total} {0}'
+    );
+    expect(text).toBe('Hi ⟦0⟧, see ⟦1⟧details⟦2⟧ at ⟦3⟧ for ⟦4⟧⟦5⟧⟦6⟧ ⟦7⟧');
+    expect(tokens).toEqual(['{{name}}', '<b>', '</b>', 'https://example.com/a?b=1', '%s', '&nbsp;', '${total}', '{0}']);
+  });
+
+  it('leaves plain text alone', () => {
+    expect(TranslationService.protect('Plain text.')).toEqual({ text: 'Plain text.', tokens: [] });
+  });
+
+  it('restores tokens wherever the translation moved them', () => {
+    const { text, tokens } = TranslationService.protect('Hello {{name}}, you have %d messages');
+    expect(text).toBe('Hello ⟦0⟧, you have ⟦1⟧ messages');
+    expect(TranslationService.restore('⟦1⟧ Nachrichten für ⟦0⟧', tokens)).toEqual({ text: '%d Nachrichten für {{name}}' });
+  });
+
+  it('reports tokens the translation dropped', () => {
+    const { tokens } = TranslationService.protect('Open {{link}} now');
+    expect(TranslationService.restore('Jetzt öffnen', tokens).error).toBe('Translation dropped protected text: {{link}}');
+  });
+
+  it('restores tokens in JSON and plain-text responses', () => {
+    const { tokens } = TranslationService.protect('Hi {{name}}');
+    expect(TranslationService.parseResponse('{"translation": "Hallo ⟦0⟧", "source_language": "English"}', tokens))
+      .toEqual({ translation: 'Hallo {{name}}', sourceLanguage: 'English', error: undefined });
+    expect(TranslationService.parseResponse('Salut ⟦0⟧', tokens).translation).toBe('Salut {{name}}');
+  });
+});